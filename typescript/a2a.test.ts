@@ -0,0 +1,272 @@
+/**
+ * Tests for the A2A task dispatcher and lifecycle bridge.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import {
+  A2ATaskBridge,
+  A2ATaskDispatcher,
+  A2ATask,
+  A2AMessageSendParams,
+  A2ATransport,
+  toPlanTaskStatus,
+} from './a2a.js';
+import { OPTClient, HandlerTransport } from './client.js';
+import { OPTHandler, OPTError, JSON_RPC_ERRORS, JsonRpcRequest, JsonRpcResponse } from './handler.js';
+import { InMemoryOPTStore } from './store.js';
+import { computeSchedule } from './scheduler.js';
+import { setOPTMetadata } from './extension.js';
+import { OPT_EXTENSION_URI, OPT_METADATA, Plan } from './types.js';
+
+describe('toPlanTaskStatus', () => {
+  it('maps A2A states one to one', () => {
+    expect(toPlanTaskStatus('working')).toBe('working');
+    expect(toPlanTaskStatus('input-required')).toBe('input-required');
+    expect(toPlanTaskStatus('auth-required')).toBe('auth-required');
+    expect(toPlanTaskStatus('rejected')).toBe('rejected');
+    expect(toPlanTaskStatus('unknown')).toBeNull();
+  });
+});
+
+describe('A2ATaskBridge', () => {
+  let store: InMemoryOPTStore;
+  let bridge: A2ATaskBridge;
+  let plan: Plan;
+
+  beforeEach(async () => {
+    store = new InMemoryOPTStore();
+    bridge = new A2ATaskBridge(new OPTClient(new HandlerTransport(new OPTHandler(store))));
+    const objective = await store.createObjective({ name: 'Objective' });
+    plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [{ name: 'A' }, { name: 'B' }],
+    });
+  });
+
+  function a2aTask(id: string, taskIndex: number, state: A2ATask['status']['state']): A2ATask {
+    return {
+      kind: 'task',
+      id,
+      contextId: plan.objectiveId,
+      status: { state },
+      metadata: setOPTMetadata({}, plan.tasks![taskIndex]),
+    };
+  }
+
+  it('links the PlanTask at the metadata task index and mirrors its state', async () => {
+    const task = await bridge.onTask(a2aTask('a2a-1', 1, 'working'));
+
+    expect(task?.id).toBe(plan.tasks![1].id);
+    expect(task?.a2aTaskId).toBe('a2a-1');
+    expect(task?.status).toBe('working');
+    expect((await store.getPlan(plan.id))?.status).toBe('working');
+  });
+
+  it('mirrors waiting states and blocks the plan', async () => {
+    await bridge.onTask(a2aTask('a2a-1', 0, 'working'));
+    const task = await bridge.onTask(a2aTask('a2a-1', 0, 'input-required'));
+
+    expect(task?.status).toBe('input-required');
+    expect((await store.getPlan(plan.id))?.status).toBe('blocked');
+  });
+
+  it('mirrors rejection and fails the plan', async () => {
+    const task = await bridge.onTask(a2aTask('a2a-1', 0, 'rejected'));
+
+    expect(task?.status).toBe('rejected');
+    expect((await store.getPlan(plan.id))?.status).toBe('failed');
+  });
+
+  it('applies status updates without OPT metadata once the task is known', async () => {
+    await bridge.onTask(a2aTask('a2a-1', 0, 'submitted'));
+
+    const task = await bridge.onStatusUpdate({
+      kind: 'status-update',
+      taskId: 'a2a-1',
+      contextId: plan.objectiveId,
+      status: { state: 'auth-required' },
+      final: false,
+    });
+
+    expect(task?.id).toBe(plan.tasks![0].id);
+    expect(task?.status).toBe('auth-required');
+  });
+
+  it('finds an already linked PlanTask by its A2A task ID', async () => {
+    await store.linkA2ATask(plan.tasks![1].id, 'a2a-1');
+
+    const task = await bridge.onTask(a2aTask('a2a-1', 0, 'completed'));
+
+    expect(task?.id).toBe(plan.tasks![1].id);
+    expect(task?.status).toBe('completed');
+  });
+
+  it('does not write when the status is unchanged', async () => {
+    const first = await bridge.onTask(a2aTask('a2a-1', 0, 'working'));
+    const second = await bridge.onTask(a2aTask('a2a-1', 0, 'working'));
+
+    expect(second?.version).toBe(first?.version);
+  });
+
+  it('skips events replayed after a terminal state', async () => {
+    await bridge.onTask(a2aTask('a2a-1', 0, 'working'));
+    const completed = await bridge.onTask(a2aTask('a2a-1', 0, 'completed'));
+
+    const replayed = await bridge.onStatusUpdate({
+      kind: 'status-update',
+      taskId: 'a2a-1',
+      contextId: plan.objectiveId,
+      status: { state: 'working' },
+      final: false,
+      metadata: setOPTMetadata({}, plan.tasks![0]),
+    });
+
+    expect(replayed?.status).toBe('completed');
+    expect(replayed?.version).toBe(completed?.version);
+  });
+
+  it('ignores tasks that are not part of an objective', async () => {
+    const task = await bridge.onTask({
+      id: 'a2a-1',
+      contextId: 'ctx',
+      status: { state: 'working' },
+    });
+
+    expect(task).toBeNull();
+  });
+
+  it('ignores tasks whose plan no longer exists', async () => {
+    await store.deletePlan(plan.id);
+
+    expect(await bridge.onTask(a2aTask('a2a-1', 0, 'working'))).toBeNull();
+  });
+
+  it('does not take over a PlanTask linked to another A2A task', async () => {
+    await store.linkA2ATask(plan.tasks![0].id, 'a2a-other');
+
+    expect(await bridge.onTask(a2aTask('a2a-1', 0, 'working'))).toBeNull();
+    expect((await store.getPlanTask(plan.tasks![0].id))?.status).toBe('pending');
+  });
+});
+
+describe('A2ATaskDispatcher', () => {
+  let store: InMemoryOPTStore;
+  let send: Mock<Parameters<A2ATransport['send']>, ReturnType<A2ATransport['send']>>;
+  let dispatcher: A2ATaskDispatcher;
+  let plan: Plan;
+
+  beforeEach(async () => {
+    store = new InMemoryOPTStore();
+    send = vi.fn(async (request: JsonRpcRequest, _headers: Record<string, string>): Promise<JsonRpcResponse> => ({
+      jsonrpc: '2.0',
+      id: request.id ?? null,
+      result: { kind: 'task', id: `a2a-${request.id}`, contextId: 'ctx', status: { state: 'submitted' } },
+    }));
+    const transport: A2ATransport = { send };
+    dispatcher = new A2ATaskDispatcher(
+      new OPTClient(new HandlerTransport(new OPTHandler(store))),
+      transport
+    );
+    const objective = await store.createObjective({ name: 'Objective' });
+    plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [
+        { name: 'Search', description: 'Find recent papers' },
+        { name: 'Summarize', dependencies: ['task-0'] },
+      ],
+    });
+  });
+
+  it('builds a message/send request in the objective context', () => {
+    const { request, headers } = dispatcher.buildRequest(plan.tasks![1]);
+    const { message } = request.params as A2AMessageSendParams;
+
+    expect(request.method).toBe('message/send');
+    expect(message.contextId).toBe(plan.objectiveId);
+    expect(message.role).toBe('user');
+    expect(message.parts).toEqual([{ kind: 'text', text: 'Summarize' }]);
+    expect(message.metadata).toEqual({
+      [OPT_METADATA.OBJECTIVE_ID]: plan.objectiveId,
+      [OPT_METADATA.PLAN_ID]: plan.id,
+      [OPT_METADATA.TASK_INDEX]: 1,
+      [OPT_METADATA.DEPENDENCIES]: [plan.tasks![0].id],
+    });
+    expect(headers['X-A2A-Extensions']).toBe(OPT_EXTENSION_URI);
+  });
+
+  it('includes the description in the default text', () => {
+    const { request } = dispatcher.buildRequest(plan.tasks![0]);
+
+    expect((request.params as A2AMessageSendParams).message.parts[0].text)
+      .toBe('Search\n\nFind recent papers');
+  });
+
+  it('sends the request and links the created A2A task', async () => {
+    const task = await dispatcher.dispatch(plan.tasks![0]);
+
+    expect(send).toHaveBeenCalledOnce();
+    expect(task.a2aTaskId).toBe('a2a-1');
+    expect((await store.getPlanTask(plan.tasks![0].id))?.a2aTaskId).toBe('a2a-1');
+  });
+
+  it('applies the state of the created A2A task', async () => {
+    send.mockResolvedValueOnce({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { kind: 'task', id: 'a2a-1', contextId: 'ctx', status: { state: 'working' } },
+    });
+
+    const task = await dispatcher.dispatch(plan.tasks![0]);
+
+    expect(task.status).toBe('working');
+    expect((await store.getPlan(plan.id))?.status).toBe('working');
+  });
+
+  it('marks a dispatched task submitted so it is no longer ready', async () => {
+    const [task] = await dispatcher.dispatchReady(plan.objectiveId);
+
+    expect(task.status).toBe('submitted');
+    expect(computeSchedule((await store.getObjective(plan.objectiveId))!).ready).toEqual([]);
+  });
+
+  it('dispatches only ready, unlinked tasks', async () => {
+    const dispatched = await dispatcher.dispatchReady(plan.objectiveId);
+
+    expect(dispatched.map(t => t.id)).toEqual([plan.tasks![0].id]);
+    expect(await dispatcher.dispatchReady(plan.objectiveId)).toEqual([]);
+  });
+
+  it('refuses to dispatch a task that is already linked', async () => {
+    const linked = await dispatcher.dispatch(plan.tasks![0]);
+
+    const error = await dispatcher.dispatch(linked).catch(e => e);
+
+    expect(error).toBeInstanceOf(OPTError);
+    expect(error.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+    expect(send).toHaveBeenCalledOnce();
+  });
+
+  it('throws the agent error', async () => {
+    send.mockResolvedValueOnce({ jsonrpc: '2.0', id: 1, error: { code: -32600, message: 'Bad request' } });
+
+    const error = await dispatcher.dispatch(plan.tasks![0]).catch(e => e);
+
+    expect(error).toBeInstanceOf(OPTError);
+    expect(error.message).toBe('Bad request');
+    expect((await store.getPlanTask(plan.tasks![0].id))?.a2aTaskId).toBeUndefined();
+  });
+
+  it('throws when the agent replies with a message instead of a task', async () => {
+    send.mockResolvedValueOnce({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { kind: 'message', messageId: 'm-1', role: 'agent', parts: [] },
+    });
+
+    const error = await dispatcher.dispatch(plan.tasks![0]).catch(e => e);
+
+    expect(error.code).toBe(JSON_RPC_ERRORS.INTERNAL_ERROR);
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * A2A task lifecycle integration for OPT.
+ * 
+ * A2ATaskDispatcher sends ready PlanTasks to an agent as A2A `message/send`
+ * requests and links the A2A tasks it creates. A2ATaskBridge consumes A2A
+ * `Task` objects and `TaskStatusUpdateEvent`s and mirrors their state onto
+ * the linked PlanTask, so an executor only has to report status to A2A.
+ */
+
+import { OPT_EXTENSION_URI, PlanTask, PlanTaskStatus } from './types.js';
+import { OPTClient } from './client.js';
+import { OPTError, JSON_RPC_ERRORS, JsonRpcRequest, JsonRpcResponse } from './handler.js';
+import { TransitionPolicy, VALID_TASK_TRANSITIONS, isAllowedTransition } from './transitions.js';
+import {
+  A2A_EXTENSIONS_HEADER,
+  buildExtensionsHeader,
+  getOPTMetadata,
+  setOPTMetadata,
+} from './extension.js';
+import { computeSchedule } from './scheduler.js';
+import { generateId } from './store.js';
+
+// =============================================================================
+// A2A Types
+// =============================================================================
+
+/**
+ * A2A task states, as defined by the A2A protocol.
+ */
+export type A2ATaskState =
+  | 'submitted'
+  | 'working'
+  | 'input-required'
+  | 'completed'
+  | 'canceled'
+  | 'failed'
+  | 'rejected'
+  | 'auth-required'
+  | 'unknown';
+
+export interface A2ATaskStatus {
+  state: A2ATaskState;
+  message?: unknown;
+  timestamp?: string;
+}
+
+/**
+ * The parts of an A2A `Task` OPT relies on.
+ */
+export interface A2ATask {
+  kind?: 'task';
+  id: string;
+  contextId: string;
+  status: A2ATaskStatus;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * The parts of an A2A `TaskStatusUpdateEvent` OPT relies on.
+ */
+export interface A2ATaskStatusUpdateEvent {
+  kind?: 'status-update';
+  taskId: string;
+  contextId: string;
+  status: A2ATaskStatus;
+  final: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface A2ATextPart {
+  kind: 'text';
+  text: string;
+}
+
+/**
+ * The parts of an A2A `Message` OPT relies on.
+ */
+export interface A2AMessage {
+  kind: 'message';
+  messageId: string;
+  role: 'user' | 'agent';
+  parts: A2ATextPart[];
+  contextId?: string;
+  taskId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Params of an A2A `message/send` request.
+ */
+export interface A2AMessageSendParams {
+  message: A2AMessage;
+  metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// State Mapping
+// =============================================================================
+
+/**
+ * PlanTask status for each A2A task state. PlanTasks mirror A2A states one
+ * to one; status propagation rolls waiting states up to `blocked` and
+ * `rejected` up to `failed` at plan level, as in the state alignment table
+ * in DESIGN.md. null leaves the PlanTask unchanged.
+ */
+export const A2A_TASK_STATE_MAP: Record<A2ATaskState, PlanTaskStatus | null> = {
+  'submitted': 'submitted',
+  'working': 'working',
+  'input-required': 'input-required',
+  'auth-required': 'auth-required',
+  'completed': 'completed',
+  'canceled': 'canceled',
+  'failed': 'failed',
+  'rejected': 'rejected',
+  'unknown': null,
+};
+
+/**
+ * Map an A2A task state to a PlanTask status.
+ * 
+ * @returns The PlanTask status, or null if the state carries no information
+ */
+export function toPlanTaskStatus(state: A2ATaskState): PlanTaskStatus | null {
+  return A2A_TASK_STATE_MAP[state] ?? null;
+}
+
+// =============================================================================
+// Dispatcher
+// =============================================================================
+
+/**
+ * Delivers A2A JSON-RPC requests to an agent.
+ * 
+ * Implementations must send `headers` along with the request; they carry
+ * the extension activation header.
+ */
+export interface A2ATransport {
+  send(request: JsonRpcRequest, headers: Record<string, string>): Promise<JsonRpcResponse>;
+}
+
+/**
+ * Options for A2ATaskDispatcher.
+ */
+export interface A2ATaskDispatcherOptions {
+  /** Message text for a task; defaults to its name and description */
+  text?: (task: PlanTask) => string;
+  /** Additional extension URIs to activate alongside OPT */
+  extensions?: string[];
+}
+
+/**
+ * Starts A2A tasks for PlanTasks.
+ * 
+ * Each PlanTask becomes a `message/send` request in the objective's context
+ * (`contextId` = objectiveId) carrying the `opt/v1/*` metadata keys, and is
+ * linked to the A2A task the agent creates for it.
+ * 
+ * @example
+ * ```typescript
+ * const dispatcher = new A2ATaskDispatcher(client, a2aTransport);
+ * const started = await dispatcher.dispatchReady(objectiveId);
+ * ```
+ */
+export class A2ATaskDispatcher {
+  private client: OPTClient;
+  private transport: A2ATransport;
+  private options: A2ATaskDispatcherOptions;
+  private nextId = 1;
+
+  constructor(client: OPTClient, transport: A2ATransport, options: A2ATaskDispatcherOptions = {}) {
+    this.client = client;
+    this.transport = transport;
+    this.options = options;
+  }
+
+  /**
+   * Build the `message/send` request and headers for a PlanTask.
+   */
+  buildRequest(task: PlanTask): { request: JsonRpcRequest; headers: Record<string, string> } {
+    const text = this.options.text?.(task)
+      ?? (task.description ? `${task.name}\n\n${task.description}` : task.name);
+
+    const params: A2AMessageSendParams = {
+      message: {
+        kind: 'message',
+        messageId: generateId('msg'),
+        role: 'user',
+        parts: [{ kind: 'text', text }],
+        contextId: task.objectiveId,
+        metadata: setOPTMetadata({}, task),
+      },
+    };
+
+    return {
+      request: { jsonrpc: '2.0', id: this.nextId++, method: 'message/send', params },
+      headers: {
+        [A2A_EXTENSIONS_HEADER]: buildExtensionsHeader([
+          OPT_EXTENSION_URI,
+          ...(this.options.extensions ?? []),
+        ]),
+      },
+    };
+  }
+
+  /**
+   * Send a PlanTask to the agent, link the A2A task it creates and apply
+   * that task's state (`submitted` if it reports none), so the PlanTask no
+   * longer counts as ready.
+   * 
+   * @returns The linked PlanTask
+   * @throws OPTError if the task is already linked, the agent returns an
+   *   error, or the agent replies without creating a task
+   */
+  async dispatch(task: PlanTask): Promise<PlanTask> {
+    if (task.a2aTaskId) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_STATE,
+        `PlanTask ${task.id} is already linked to A2A task: ${task.a2aTaskId}`
+      );
+    }
+
+    const { request, headers } = this.buildRequest(task);
+    const response = await this.transport.send(request, headers);
+    if (response.error) {
+      const { code, message, data } = response.error;
+      throw new OPTError(code, message, data);
+    }
+
+    const result = response.result as A2ATask | A2AMessage | undefined;
+    if (!result || result.kind === 'message' || typeof result.id !== 'string') {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INTERNAL_ERROR,
+        `Agent did not create a task for PlanTask ${task.id}`
+      );
+    }
+
+    const { task: linked } = await this.client.linkPlanTask({ id: task.id, a2aTaskId: result.id });
+    const status = (result.status && toPlanTaskStatus(result.status.state)) ?? 'submitted';
+    if (status === linked.status) return linked;
+
+    const { task: updated } = await this.client.updatePlanTask({ id: task.id, status });
+    return updated;
+  }
+
+  /**
+   * Dispatch every task of an objective that is ready to run and not
+   * dispatched yet (see computeSchedule).
+   * 
+   * @returns The linked PlanTasks, in schedule order
+   */
+  async dispatchReady(objectiveId: string): Promise<PlanTask[]> {
+    const { objective } = await this.client.getObjective({ id: objectiveId });
+    const ready = computeSchedule(objective).ready.filter(task => !task.a2aTaskId);
+
+    const dispatched: PlanTask[] = [];
+    for (const task of ready) {
+      dispatched.push(await this.dispatch(task));
+    }
+    return dispatched;
+  }
+}
+
+// =============================================================================
+// Bridge
+// =============================================================================
+
+/**
+ * Options for A2ATaskBridge.
+ */
+export interface A2ATaskBridgeOptions {
+  /** PlanTask transition policy; should match the handler's */
+  transitions?: TransitionPolicy<PlanTaskStatus, PlanTask>;
+}
+
+/**
+ * Keeps linked PlanTasks in sync with A2A task lifecycle events.
+ * 
+ * The owning plan is found through the task's OPT metadata (see
+ * setOPTMetadata). A PlanTask at the metadata's task index that is not linked
+ * yet is linked on first sight. Status updates go through OPTClient, so they
+ * are validated and propagated to the plan and objective like any other.
+ * Updates the transition policy does not allow, such as a late `working`
+ * after `completed`, are duplicate or out-of-order events and are skipped.
+ * 
+ * @example
+ * ```typescript
+ * const bridge = new A2ATaskBridge(new OPTClient(new HandlerTransport(handler)));
+ * for await (const event of a2aEvents) {
+ *   if (event.kind === 'task') await bridge.onTask(event);
+ *   if (event.kind === 'status-update') await bridge.onStatusUpdate(event);
+ * }
+ * ```
+ */
+export class A2ATaskBridge {
+  private client: OPTClient;
+  private transitions: TransitionPolicy<PlanTaskStatus, PlanTask>;
+  /** PlanTask IDs by A2A task ID, for events that carry no OPT metadata */
+  private links: Map<string, string> = new Map();
+
+  constructor(client: OPTClient, options: A2ATaskBridgeOptions = {}) {
+    this.client = client;
+    this.transitions = options.transitions ?? { transitions: VALID_TASK_TRANSITIONS };
+  }
+
+  /**
+   * Apply the state of an A2A task to its PlanTask.
+   * 
+   * @returns The PlanTask, or null if the A2A task is not part of an objective
+   */
+  onTask(task: A2ATask): Promise<PlanTask | null> {
+    return this.sync(task.id, task.metadata, task.status.state, isFinal(task.status.state));
+  }
+
+  /**
+   * Apply a status update to the PlanTask linked to its A2A task.
+   * 
+   * @returns The PlanTask, or null if the A2A task is not part of an objective
+   */
+  onStatusUpdate(event: A2ATaskStatusUpdateEvent): Promise<PlanTask | null> {
+    return this.sync(event.taskId, event.metadata, event.status.state, event.final);
+  }
+
+  private async sync(
+    a2aTaskId: string,
+    metadata: Record<string, unknown> | undefined,
+    state: A2ATaskState,
+    final: boolean
+  ): Promise<PlanTask | null> {
+    const task = await this.findPlanTask(a2aTaskId, metadata);
+    if (!task) return null;
+
+    if (final) {
+      this.links.delete(a2aTaskId);
+    } else {
+      this.links.set(a2aTaskId, task.id);
+    }
+
+    const status = toPlanTaskStatus(state);
+    if (!status || status === task.status) return task;
+
+    // Tasks created before statuses were tracked count as pending
+    const from = task.status ?? 'pending';
+    if (!isAllowedTransition(this.transitions, task, from, status, { status })) return task;
+
+    const updated = await this.client.updatePlanTask({ id: task.id, status });
+    return updated.task;
+  }
+
+  private async findPlanTask(
+    a2aTaskId: string,
+    metadata: Record<string, unknown> | undefined
+  ): Promise<PlanTask | null> {
+    const linked = this.links.get(a2aTaskId);
+    if (linked) {
+      return orNotFound(this.client.getPlanTask({ id: linked }).then(r => r.task));
+    }
+
+    const opt = getOPTMetadata(metadata);
+    if (!opt) return null;
+
+    const plan = await orNotFound(this.client.getPlan({ id: opt.planId }).then(r => r.plan));
+    if (!plan || plan.objectiveId !== opt.objectiveId) return null;
+
+    const tasks = plan.tasks ?? [];
+    const task = tasks.find(t => t.a2aTaskId === a2aTaskId);
+    if (task) return task;
+
+    const unlinked = tasks.find(t => t.taskIndex === opt.taskIndex && !t.a2aTaskId);
+    if (!unlinked) return null;
+
+    const { task: link } = await this.client.linkPlanTask({ id: unlinked.id, a2aTaskId });
+    return link;
+  }
+}
+
+/** A2A states after which the task receives no further updates. */
+const FINAL_A2A_STATES: A2ATaskState[] = ['completed', 'canceled', 'failed', 'rejected'];
+
+function isFinal(state: A2ATaskState): boolean {
+  return FINAL_A2A_STATES.includes(state);
+}
+
+/**
+ * Resolve to null instead of rejecting when the entity no longer exists.
+ */
+async function orNotFound<T>(promise: Promise<T>): Promise<T | null> {
+  try {
+    return await promise;
+  } catch (error) {
+    if (error instanceof OPTError && error.code === JSON_RPC_ERRORS.NOT_FOUND) return null;
+    throw error;
+  }
+}
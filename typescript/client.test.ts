@@ -0,0 +1,183 @@
+/**
+ * Tests for OPTClient and its transports.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OPTClient, HandlerTransport, HttpTransport } from './client.js';
+import { OPTHandler, OPTError, JSON_RPC_ERRORS, JsonRpcRequest } from './handler.js';
+import { InMemoryOPTStore } from './store.js';
+import { formatServerSentEvent } from './events.js';
+import { OPT_EXTENSION_URI } from './types.js';
+
+describe('OPTClient', () => {
+  let client: OPTClient;
+
+  beforeEach(() => {
+    client = new OPTClient(new HandlerTransport(new OPTHandler(new InMemoryOPTStore())));
+  });
+
+  describe('with HandlerTransport', () => {
+    it('creates and reads back an objective tree', async () => {
+      const { objective } = await client.createObjective({ name: 'Objective' });
+      const { plan } = await client.createPlan({
+        objectiveId: objective.id,
+        name: 'Plan',
+        tasks: [{ name: 'Task' }],
+      });
+      await client.updatePlanTask({ id: plan.tasks![0].id, status: 'working' });
+
+      const fetched = await client.getObjective({ id: objective.id });
+
+      expect(fetched.objective.plans?.[0].tasks?.[0].status).toBe('working');
+    });
+
+    it('creates an objective with its plans in one call', async () => {
+      const { objective } = await client.createObjectiveWithPlans({
+        name: 'Objective',
+        plans: [
+          { ref: 'research', name: 'Research', tasks: [{ name: 'Search' }] },
+          { name: 'Write', dependencies: ['research'] },
+        ],
+      });
+
+      const [research, write] = objective.plans!;
+      expect(research.tasks?.map(t => t.name)).toEqual(['Search']);
+      expect(write.dependencies).toEqual([research.id]);
+    });
+
+    it('lists objectives without params', async () => {
+      await client.createObjective({ name: 'Objective' });
+
+      const { objectives } = await client.listObjectives();
+
+      expect(objectives).toHaveLength(1);
+    });
+
+    it('throws OPTError with the original code', async () => {
+      const error = await client.getObjective({ id: 'non-existent' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(OPTError);
+      expect(error.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      expect(error.message).toBe('Objective not found: non-existent');
+    });
+
+    it('preserves error data', async () => {
+      const { objective } = await client.createObjective({ name: 'Objective' });
+
+      const error = await client
+        .createPlan({ objectiveId: objective.id, name: 'Plan', dependencies: ['plan-missing'] })
+        .catch(e => e);
+
+      expect(error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(error.data.issues[0].reason).toBe('dangling');
+    });
+
+    it('streams objective subscriptions', async () => {
+      const { objective } = await client.createObjective({ name: 'Objective' });
+      const controller = new AbortController();
+      const updates = client.subscribeObjective({ id: objective.id }, controller.signal)[Symbol.asyncIterator]();
+
+      const first = await updates.next();
+      expect('objective' in first.value && first.value.objective.id).toBe(objective.id);
+
+      await client.updateObjective({ id: objective.id, status: 'working' });
+      const second = await updates.next();
+      expect('event' in second.value && second.value.event.type).toBe('objective.updated');
+
+      controller.abort();
+      expect((await updates.next()).done).toBe(true);
+    });
+  });
+
+  describe('with HttpTransport', () => {
+    function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+      return new Response(JSON.stringify(body), {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    it('posts JSON-RPC with the extensions header', async () => {
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        const request = JSON.parse(init.body as string) as JsonRpcRequest;
+        return jsonResponse({
+          jsonrpc: '2.0',
+          id: request.id,
+          result: { objectives: [], totalSize: 0 },
+        });
+      });
+      const http = new OPTClient(new HttpTransport({
+        url: 'https://agent.example.com/rpc',
+        extensions: ['https://example.com/other'],
+        fetch: fetchMock as unknown as typeof fetch,
+      }));
+
+      const result = await http.listObjectives({ status: 'working' });
+
+      expect(result.totalSize).toBe(0);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://agent.example.com/rpc');
+      expect(init.method).toBe('POST');
+      expect((init.headers as Record<string, string>)['X-A2A-Extensions'])
+        .toBe(`${OPT_EXTENSION_URI}, https://example.com/other`);
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        jsonrpc: '2.0',
+        method: 'objectives/list',
+        params: { status: 'working' },
+      });
+    });
+
+    it('throws OPTError for JSON-RPC errors', async () => {
+      const http = new OPTClient(new HttpTransport({
+        url: 'https://agent.example.com/rpc',
+        fetch: (async () => jsonResponse({
+          jsonrpc: '2.0',
+          id: 1,
+          error: { code: JSON_RPC_ERRORS.INVALID_STATE, message: 'Invalid', data: { a: 1 } },
+        })) as unknown as typeof fetch,
+      }));
+
+      const error = await http.getPlan({ id: 'plan-1' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(OPTError);
+      expect(error.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect(error.data).toEqual({ a: 1 });
+    });
+
+    it('throws OPTError for HTTP failures', async () => {
+      const http = new OPTClient(new HttpTransport({
+        url: 'https://agent.example.com/rpc',
+        fetch: (async () => new Response('Bad Gateway', { status: 502 })) as unknown as typeof fetch,
+      }));
+
+      const error = await http.getPlan({ id: 'plan-1' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(OPTError);
+      expect(error.code).toBe(JSON_RPC_ERRORS.INTERNAL_ERROR);
+      expect(error.message).toBe('HTTP 502');
+    });
+
+    it('reads streamed results from Server-Sent Events', async () => {
+      const frames = [
+        formatServerSentEvent({ jsonrpc: '2.0', id: 1, result: { objective: { id: 'obj-1' } } }),
+        formatServerSentEvent({ jsonrpc: '2.0', id: 1, result: { event: { type: 'objective.deleted' } } }),
+      ].join('');
+      const http = new OPTClient(new HttpTransport({
+        url: 'https://agent.example.com/rpc',
+        fetch: (async () => new Response(frames, {
+          headers: { 'Content-Type': 'text/event-stream' },
+        })) as unknown as typeof fetch,
+      }));
+
+      const updates = [];
+      for await (const update of http.subscribeObjective({ id: 'obj-1' })) {
+        updates.push(update);
+      }
+
+      expect(updates).toEqual([
+        { objective: { id: 'obj-1' } },
+        { event: { type: 'objective.deleted' } },
+      ]);
+    });
+  });
+});
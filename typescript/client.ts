@@ -0,0 +1,355 @@
+/**
+ * Typed client for the OPT JSON-RPC methods.
+ * 
+ * OPTClient builds the JSON-RPC requests, sends them through a transport
+ * (in-process OPTHandler or HTTP) and turns error responses back into
+ * OPTError instances.
+ */
+
+import {
+  CreateObjectiveRequest,
+  CreateObjectiveResponse,
+  CreateObjectiveWithPlansRequest,
+  CreateObjectiveWithPlansResponse,
+  GetObjectiveRequest,
+  GetObjectiveResponse,
+  ListObjectivesRequest,
+  ListObjectivesResponse,
+  UpdateObjectiveRequest,
+  UpdateObjectiveResponse,
+  ReplanObjectiveRequest,
+  ReplanObjectiveResponse,
+  DeleteObjectiveRequest,
+  DeleteObjectiveResponse,
+  RestoreObjectiveRequest,
+  RestoreObjectiveResponse,
+  GetObjectiveHistoryRequest,
+  GetObjectiveHistoryResponse,
+  SubscribeObjectiveRequest,
+  SubscribeObjectiveUpdate,
+  CreatePlanRequest,
+  CreatePlanResponse,
+  GetPlanRequest,
+  GetPlanResponse,
+  ListPlansRequest,
+  ListPlansResponse,
+  UpdatePlanRequest,
+  UpdatePlanResponse,
+  AddPlanTasksRequest,
+  AddPlanTasksResponse,
+  DeletePlanRequest,
+  DeletePlanResponse,
+  GetPlanHistoryRequest,
+  GetPlanHistoryResponse,
+  GetPlanTaskRequest,
+  GetPlanTaskResponse,
+  UpdatePlanTaskRequest,
+  UpdatePlanTaskResponse,
+  LinkPlanTaskRequest,
+  LinkPlanTaskResponse,
+  GetPlanTaskHistoryRequest,
+  GetPlanTaskHistoryResponse,
+  OPT_EXTENSION_URI,
+} from './types.js';
+import {
+  OPTHandler,
+  OPTRequestContext,
+  OPTError,
+  JSON_RPC_ERRORS,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from './handler.js';
+import { A2A_EXTENSIONS_HEADER, buildExtensionsHeader } from './extension.js';
+
+// =============================================================================
+// Transports
+// =============================================================================
+
+/**
+ * Delivers JSON-RPC requests to an OPT server.
+ */
+export interface OPTTransport {
+  send(request: JsonRpcRequest): Promise<JsonRpcResponse>;
+  /** Send a request to a streaming method, yielding each response */
+  stream(request: JsonRpcRequest, signal?: AbortSignal): AsyncIterable<JsonRpcResponse>;
+}
+
+/**
+ * Transport that calls an OPTHandler in the same process, optionally on
+ * behalf of a fixed caller.
+ */
+export class HandlerTransport implements OPTTransport {
+  private handler: OPTHandler;
+  private context: OPTRequestContext;
+
+  constructor(handler: OPTHandler, context: OPTRequestContext = {}) {
+    this.handler = handler;
+    this.context = context;
+  }
+
+  async send(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    // OPTClient always sets an id, so there is always a single response
+    return (await this.handler.handle(request, this.context)) as JsonRpcResponse;
+  }
+
+  stream(request: JsonRpcRequest, signal?: AbortSignal): AsyncIterable<JsonRpcResponse> {
+    return this.handler.handleStream(request, signal, this.context);
+  }
+}
+
+/**
+ * Options for HttpTransport.
+ */
+export interface HttpTransportOptions {
+  /** JSON-RPC endpoint of the agent */
+  url: string;
+  /** Additional extension URIs to activate alongside OPT */
+  extensions?: string[];
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** fetch implementation; defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport that POSTs requests to an HTTP endpoint, activating the OPT
+ * extension via the X-A2A-Extensions header.
+ */
+export class HttpTransport implements OPTTransport {
+  private options: HttpTransportOptions;
+
+  constructor(options: HttpTransportOptions) {
+    this.options = options;
+  }
+
+  async send(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const response = await this.post(request, 'application/json');
+    return response.json() as Promise<JsonRpcResponse>;
+  }
+
+  async *stream(request: JsonRpcRequest, signal?: AbortSignal): AsyncIterable<JsonRpcResponse> {
+    const response = await this.post(request, 'text/event-stream', signal);
+
+    // Servers may answer a failed stream with a plain JSON-RPC error
+    if (!response.headers.get('Content-Type')?.includes('text/event-stream') || !response.body) {
+      yield (await response.json()) as JsonRpcResponse;
+      return;
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      yield JSON.parse(data) as JsonRpcResponse;
+    }
+  }
+
+  private async post(request: JsonRpcRequest, accept: string, signal?: AbortSignal): Promise<Response> {
+    const fetchFn = this.options.fetch ?? fetch;
+    const response = await fetchFn(this.options.url, {
+      method: 'POST',
+      headers: {
+        ...this.options.headers,
+        'Content-Type': 'application/json',
+        'Accept': accept,
+        [A2A_EXTENSIONS_HEADER]: buildExtensionsHeader([
+          OPT_EXTENSION_URI,
+          ...(this.options.extensions ?? []),
+        ]),
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    // JSON-RPC errors come back as 200; anything else without a JSON body
+    // is a transport failure
+    if (!response.ok && !response.headers.get('Content-Type')?.includes('application/json')) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INTERNAL_ERROR,
+        `HTTP ${response.status} ${response.statusText}`.trim()
+      );
+    }
+    return response;
+  }
+}
+
+/**
+ * Yield the data of each Server-Sent Event in a response body.
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const frame = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        const data = frame
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+/**
+ * Typed OPT client.
+ * 
+ * @example
+ * ```typescript
+ * const client = new OPTClient(new HttpTransport({ url: 'https://agent.example.com/rpc' }));
+ * const { objective } = await client.createObjective({ name: 'Launch' });
+ * ```
+ */
+export class OPTClient {
+  private transport: OPTTransport;
+  private nextId = 1;
+
+  constructor(transport: OPTTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Call a method and return its result.
+   * 
+   * @throws OPTError carrying the code and data of a JSON-RPC error response
+   */
+  async call<T>(method: string, params?: unknown): Promise<T> {
+    const response = await this.transport.send(this.request(method, params));
+    return unwrap<T>(response);
+  }
+
+  /**
+   * Call a streaming method and yield each result.
+   */
+  async *callStream<T>(method: string, params?: unknown, signal?: AbortSignal): AsyncIterable<T> {
+    for await (const response of this.transport.stream(this.request(method, params), signal)) {
+      yield unwrap<T>(response);
+    }
+  }
+
+  private request(method: string, params: unknown): JsonRpcRequest {
+    return { jsonrpc: '2.0', id: this.nextId++, method, params };
+  }
+
+  // =========================================================================
+  // Objectives
+  // =========================================================================
+
+  createObjective(params: CreateObjectiveRequest): Promise<CreateObjectiveResponse> {
+    return this.call('objectives/create', params);
+  }
+
+  createObjectiveWithPlans(params: CreateObjectiveWithPlansRequest): Promise<CreateObjectiveWithPlansResponse> {
+    return this.call('objectives/createWithPlans', params);
+  }
+
+  getObjective(params: GetObjectiveRequest): Promise<GetObjectiveResponse> {
+    return this.call('objectives/get', params);
+  }
+
+  listObjectives(params: ListObjectivesRequest = {}): Promise<ListObjectivesResponse> {
+    return this.call('objectives/list', params);
+  }
+
+  updateObjective(params: UpdateObjectiveRequest): Promise<UpdateObjectiveResponse> {
+    return this.call('objectives/update', params);
+  }
+
+  replanObjective(params: ReplanObjectiveRequest): Promise<ReplanObjectiveResponse> {
+    return this.call('objectives/replan', params);
+  }
+
+  deleteObjective(params: DeleteObjectiveRequest): Promise<DeleteObjectiveResponse> {
+    return this.call('objectives/delete', params);
+  }
+
+  restoreObjective(params: RestoreObjectiveRequest): Promise<RestoreObjectiveResponse> {
+    return this.call('objectives/restore', params);
+  }
+
+  getObjectiveHistory(params: GetObjectiveHistoryRequest): Promise<GetObjectiveHistoryResponse> {
+    return this.call('objectives/history', params);
+  }
+
+  subscribeObjective(
+    params: SubscribeObjectiveRequest,
+    signal?: AbortSignal
+  ): AsyncIterable<SubscribeObjectiveUpdate> {
+    return this.callStream('objectives/subscribe', params, signal);
+  }
+
+  // =========================================================================
+  // Plans
+  // =========================================================================
+
+  createPlan(params: CreatePlanRequest): Promise<CreatePlanResponse> {
+    return this.call('plans/create', params);
+  }
+
+  getPlan(params: GetPlanRequest): Promise<GetPlanResponse> {
+    return this.call('plans/get', params);
+  }
+
+  listPlans(params: ListPlansRequest = {}): Promise<ListPlansResponse> {
+    return this.call('plans/list', params);
+  }
+
+  updatePlan(params: UpdatePlanRequest): Promise<UpdatePlanResponse> {
+    return this.call('plans/update', params);
+  }
+
+  addPlanTasks(params: AddPlanTasksRequest): Promise<AddPlanTasksResponse> {
+    return this.call('plans/addTasks', params);
+  }
+
+  deletePlan(params: DeletePlanRequest): Promise<DeletePlanResponse> {
+    return this.call('plans/delete', params);
+  }
+
+  getPlanHistory(params: GetPlanHistoryRequest): Promise<GetPlanHistoryResponse> {
+    return this.call('plans/history', params);
+  }
+
+  // =========================================================================
+  // Plan Tasks
+  // =========================================================================
+
+  getPlanTask(params: GetPlanTaskRequest): Promise<GetPlanTaskResponse> {
+    return this.call('planTasks/get', params);
+  }
+
+  updatePlanTask(params: UpdatePlanTaskRequest): Promise<UpdatePlanTaskResponse> {
+    return this.call('planTasks/update', params);
+  }
+
+  linkPlanTask(params: LinkPlanTaskRequest): Promise<LinkPlanTaskResponse> {
+    return this.call('planTasks/link', params);
+  }
+
+  getPlanTaskHistory(params: GetPlanTaskHistoryRequest): Promise<GetPlanTaskHistoryResponse> {
+    return this.call('planTasks/history', params);
+  }
+}
+
+function unwrap<T>(response: JsonRpcResponse): T {
+  if (response.error) {
+    const { code, message, data } = response.error;
+    throw new OPTError(code, message, data);
+  }
+  return response.result as T;
+}
@@ -0,0 +1,812 @@
+/**
+ * OPTStore conformance suite.
+ * 
+ * Verifies that an OPTStore implementation honours the contract that
+ * OPTHandler relies on. Run it from a vitest test file:
+ * 
+ * @example
+ * ```typescript
+ * import { runOPTStoreConformance } from 'a2a-opt/conformance';
+ * 
+ * runOPTStoreConformance('PostgresOPTStore', {
+ *   create: async () => new PostgresOPTStore(await connect()),
+ *   destroy: store => store.close(),
+ * });
+ * ```
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OPTStore } from './types.js';
+
+export interface OPTStoreConformanceOptions<S extends OPTStore = OPTStore> {
+  /** Create an empty store; called before every test */
+  create: () => S | Promise<S>;
+  /** Release the store; called after every test */
+  destroy?: (store: S) => void | Promise<void>;
+}
+
+/**
+ * Register the conformance tests for a store implementation.
+ */
+export function runOPTStoreConformance<S extends OPTStore>(
+  name: string,
+  options: OPTStoreConformanceOptions<S>
+): void {
+  describe(`${name} conformance`, () => {
+    let store: S;
+
+    beforeEach(async () => {
+      store = await options.create();
+    });
+
+    afterEach(async () => {
+      await options.destroy?.(store);
+    });
+
+    async function createPlanWithTasks(taskNames: string[] = ['A', 'B', 'C']) {
+      const objective = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({
+        objectiveId: objective.id,
+        name: 'Plan',
+        tasks: taskNames.map(name => ({ name })),
+      });
+      return { objective, plan };
+    }
+
+    // =========================================================================
+    // Copy-on-read isolation
+    // =========================================================================
+
+    describe('copy-on-read isolation', () => {
+      it('does not expose stored objectives', async () => {
+        const created = await store.createObjective({ name: 'Objective', metadata: { key: 'value' } });
+        created.name = 'Mutated';
+
+        const fetched = await store.getObjective(created.id);
+        fetched!.status = 'failed';
+        fetched!.metadata!.key = 'mutated';
+
+        const again = await store.getObjective(created.id);
+        expect(again?.name).toBe('Objective');
+        expect(again?.status).toBe('submitted');
+        expect(again?.metadata).toEqual({ key: 'value' });
+      });
+
+      it('does not expose stored plans', async () => {
+        const { plan } = await createPlanWithTasks();
+
+        const fetched = await store.getPlan(plan.id);
+        fetched!.status = 'failed';
+        fetched!.dependencies!.push('plan-x');
+        fetched!.tasks!.pop();
+
+        const again = await store.getPlan(plan.id);
+        expect(again?.status).toBe('pending');
+        expect(again?.dependencies).toEqual([]);
+        expect(again?.tasks).toHaveLength(3);
+      });
+
+      it('does not expose stored tasks', async () => {
+        const { plan } = await createPlanWithTasks();
+        const taskId = plan.tasks![0].id;
+
+        const fetched = await store.getPlanTask(taskId);
+        fetched!.status = 'failed';
+        fetched!.metadata!.key = 'mutated';
+
+        const again = await store.getPlanTask(taskId);
+        expect(again?.status).toBe('pending');
+        expect(again?.metadata).toEqual({});
+      });
+
+      it('does not expose objectives returned by listObjectives', async () => {
+        const created = await store.createObjective({ name: 'Objective' });
+
+        const { objectives } = await store.listObjectives({});
+        objectives[0].name = 'Mutated';
+
+        expect((await store.getObjective(created.id))?.name).toBe('Objective');
+      });
+    });
+
+    // =========================================================================
+    // Immutable fields
+    // =========================================================================
+
+    describe('immutable fields', () => {
+      it('keeps objective id and createdAt on update', async () => {
+        const created = await store.createObjective({ name: 'Objective' });
+
+        const updated = await store.updateObjective(created.id, {
+          id: 'other',
+          createdAt: '2000-01-01T00:00:00.000Z',
+          name: 'Renamed',
+        });
+
+        expect(updated?.id).toBe(created.id);
+        expect(updated?.createdAt).toBe(created.createdAt);
+        expect(updated?.name).toBe('Renamed');
+        expect(await store.getObjective('other')).toBeNull();
+      });
+
+      it('keeps plan id, objectiveId and createdAt on update', async () => {
+        const { objective, plan } = await createPlanWithTasks();
+
+        const updated = await store.updatePlan(plan.id, {
+          id: 'other',
+          objectiveId: 'other',
+          createdAt: '2000-01-01T00:00:00.000Z',
+          status: 'working',
+        });
+
+        expect(updated?.id).toBe(plan.id);
+        expect(updated?.objectiveId).toBe(objective.id);
+        expect(updated?.createdAt).toBe(plan.createdAt);
+        expect(updated?.status).toBe('working');
+      });
+
+      it('keeps task id, planId and objectiveId on update', async () => {
+        const { objective, plan } = await createPlanWithTasks();
+        const taskId = plan.tasks![0].id;
+
+        const updated = await store.updatePlanTask(taskId, {
+          id: 'other',
+          planId: 'other',
+          objectiveId: 'other',
+          status: 'working',
+        });
+
+        expect(updated?.id).toBe(taskId);
+        expect(updated?.planId).toBe(plan.id);
+        expect(updated?.objectiveId).toBe(objective.id);
+        expect(updated?.status).toBe('working');
+      });
+
+      it('returns null when updating missing entities', async () => {
+        expect(await store.updateObjective('non-existent', { name: 'x' })).toBeNull();
+        expect(await store.updatePlan('non-existent', { name: 'x' })).toBeNull();
+        expect(await store.updatePlanTask('non-existent', { name: 'x' })).toBeNull();
+      });
+    });
+
+    // =========================================================================
+    // Cascade deletion
+    // =========================================================================
+
+    describe('cascade deletion', () => {
+      it('deletes plans and tasks with their objective', async () => {
+        const { objective, plan } = await createPlanWithTasks();
+
+        expect(await store.deleteObjective(objective.id)).toBe(true);
+
+        expect(await store.getObjective(objective.id)).toBeNull();
+        expect(await store.getPlan(plan.id)).toBeNull();
+        expect(await store.getPlansForObjective(objective.id)).toEqual([]);
+        expect(await store.getTasksForPlan(plan.id)).toEqual([]);
+        expect(await store.getPlanTask(plan.tasks![0].id)).toBeNull();
+      });
+
+      it('deletes tasks with their plan and leaves siblings alone', async () => {
+        const { objective, plan } = await createPlanWithTasks();
+        const sibling = await store.createPlan({
+          objectiveId: objective.id,
+          name: 'Sibling',
+          tasks: [{ name: 'S' }],
+        });
+
+        expect(await store.deletePlan(plan.id)).toBe(true);
+
+        expect(await store.getTasksForPlan(plan.id)).toEqual([]);
+        expect((await store.getPlan(sibling.id))?.tasks).toHaveLength(1);
+        expect((await store.getObjective(objective.id))?.plans?.map(p => p.id)).toEqual([sibling.id]);
+      });
+
+      it('returns false when deleting missing entities', async () => {
+        expect(await store.deleteObjective('non-existent')).toBe(false);
+        expect(await store.deletePlan('non-existent')).toBe(false);
+      });
+    });
+
+    // =========================================================================
+    // Task ordering and dependencies
+    // =========================================================================
+
+    describe('task ordering', () => {
+      it('returns tasks in taskIndex order', async () => {
+        const { plan } = await createPlanWithTasks();
+
+        const tasks = await store.getTasksForPlan(plan.id);
+
+        expect(tasks.map(t => t.name)).toEqual(['A', 'B', 'C']);
+        expect(tasks.map(t => t.taskIndex)).toEqual([0, 1, 2]);
+      });
+
+      it('renumbers tasks when inserting at a position', async () => {
+        const { plan } = await createPlanWithTasks();
+
+        await store.addPlanTasks({ planId: plan.id, tasks: [{ name: 'X' }, { name: 'Y' }], position: 1 });
+
+        const tasks = await store.getTasksForPlan(plan.id);
+        expect(tasks.map(t => t.name)).toEqual(['A', 'X', 'Y', 'B', 'C']);
+        expect(tasks.map(t => t.taskIndex)).toEqual([0, 1, 2, 3, 4]);
+      });
+
+      it('appends tasks when no position is given', async () => {
+        const { plan } = await createPlanWithTasks();
+
+        const added = await store.addPlanTasks({ planId: plan.id, tasks: [{ name: 'D' }] });
+
+        expect(added?.[0].taskIndex).toBe(3);
+      });
+
+      it('returns null when adding tasks to a missing plan', async () => {
+        expect(await store.addPlanTasks({ planId: 'non-existent', tasks: [{ name: 'X' }] })).toBeNull();
+      });
+
+      it('orders plans by creation', async () => {
+        const objective = await store.createObjective({ name: 'Objective' });
+        for (const name of ['First', 'Second', 'Third']) {
+          await store.createPlan({ objectiveId: objective.id, name });
+        }
+
+        const plans = await store.getPlansForObjective(objective.id);
+
+        expect(plans.map(p => p.name)).toEqual(['First', 'Second', 'Third']);
+      });
+    });
+
+    describe('dependency resolution', () => {
+      it('resolves task-N references within a created plan', async () => {
+        const objective = await store.createObjective({ name: 'Objective' });
+        const plan = await store.createPlan({
+          objectiveId: objective.id,
+          name: 'Plan',
+          tasks: [
+            { name: 'A' },
+            { name: 'B', dependencies: ['task-0'] },
+            { name: 'C', dependencies: ['task-0', 'task-1'] },
+          ],
+        });
+
+        const tasks = await store.getTasksForPlan(plan.id);
+
+        expect(tasks[1].dependencies).toEqual([tasks[0].id]);
+        expect(tasks[2].dependencies).toEqual([tasks[0].id, tasks[1].id]);
+      });
+
+      it('resolves task-N references within added tasks', async () => {
+        const { plan } = await createPlanWithTasks(['A']);
+        const existingId = plan.tasks![0].id;
+
+        const added = await store.addPlanTasks({
+          planId: plan.id,
+          tasks: [{ name: 'X', dependencies: [existingId] }, { name: 'Y', dependencies: ['task-0'] }],
+        });
+
+        expect(added?.[0].dependencies).toEqual([existingId]);
+        expect(added?.[1].dependencies).toEqual([added?.[0].id]);
+      });
+
+      it('drops out-of-range task-N references', async () => {
+        const objective = await store.createObjective({ name: 'Objective' });
+        const plan = await store.createPlan({
+          objectiveId: objective.id,
+          name: 'Plan',
+          tasks: [{ name: 'A', dependencies: ['task-5'] }],
+        });
+
+        expect((await store.getPlanTask(plan.tasks![0].id))?.dependencies).toEqual([]);
+      });
+
+      it('stores plan dependencies as given', async () => {
+        const objective = await store.createObjective({ name: 'Objective' });
+        const first = await store.createPlan({ objectiveId: objective.id, name: 'First' });
+        const second = await store.createPlan({
+          objectiveId: objective.id,
+          name: 'Second',
+          dependencies: [first.id],
+        });
+
+        expect((await store.getPlan(second.id))?.dependencies).toEqual([first.id]);
+      });
+    });
+
+    describe('createObjectiveTree', () => {
+      it('creates the objective with plans, tasks and plan-N dependencies', async ({ skip }) => {
+        if (!store.createObjectiveTree) return skip();
+
+        const objective = await store.createObjectiveTree({
+          name: 'Objective',
+          plans: [
+            { name: 'First', dependencies: ['plan-1'], tasks: [{ name: 'A' }, { name: 'B', dependencies: ['task-0'] }] },
+            { name: 'Second' },
+          ],
+        });
+
+        const fetched = await store.getObjective(objective.id);
+        expect(fetched?.plans?.map(p => p.name)).toEqual(['First', 'Second']);
+        const [first, second] = fetched!.plans!;
+        expect(first.dependencies).toEqual([second.id]);
+        expect(first.tasks?.[1].dependencies).toEqual([first.tasks![0].id]);
+        expect(objective.plans).toHaveLength(2);
+      });
+    });
+
+    // =========================================================================
+    // Versions
+    // =========================================================================
+
+    describe('versions', () => {
+      it('creates entities at version 1', async () => {
+        const { objective, plan } = await createPlanWithTasks();
+
+        expect(objective.version).toBe(1);
+        expect(plan.version).toBe(1);
+        expect(plan.tasks!.map(t => t.version)).toEqual([1, 1, 1]);
+        expect((await store.getObjective(objective.id))?.version).toBe(1);
+      });
+
+      it('increments the version on every update', async () => {
+        const { objective, plan } = await createPlanWithTasks();
+        const taskId = plan.tasks![0].id;
+
+        await store.updateObjective(objective.id, { name: 'Renamed' });
+        expect((await store.updateObjective(objective.id, { status: 'working' }))?.version).toBe(3);
+        expect((await store.updatePlan(plan.id, { status: 'working' }))?.version).toBe(2);
+        expect((await store.updatePlanTask(taskId, { status: 'working' }))?.version).toBe(2);
+        await store.linkA2ATask(taskId, 'a2a-1');
+
+        expect((await store.getObjective(objective.id))?.version).toBe(3);
+        expect((await store.getPlan(plan.id))?.version).toBe(2);
+        expect((await store.getPlanTask(taskId))?.version).toBe(3);
+      });
+
+      it('ignores version in updates', async () => {
+        const { objective } = await createPlanWithTasks();
+
+        const updated = await store.updateObjective(objective.id, { version: 42 });
+
+        expect(updated?.version).toBe(2);
+      });
+
+      it('bumps the plan and shifted tasks when inserting tasks', async () => {
+        const { plan } = await createPlanWithTasks(['A', 'B']);
+
+        await store.addPlanTasks({ planId: plan.id, tasks: [{ name: 'X' }], position: 1 });
+
+        const updated = await store.getPlan(plan.id);
+        expect(updated?.version).toBe(2);
+        expect(updated?.tasks?.map(t => [t.name, t.version])).toEqual([['A', 1], ['X', 1], ['B', 2]]);
+      });
+    });
+
+    // =========================================================================
+    // Listing
+    // =========================================================================
+
+    describe('pagination', () => {
+      beforeEach(async () => {
+        for (let i = 0; i < 5; i++) {
+          const objective = await store.createObjective({ name: `Objective ${i}` });
+          if (i < 2) await store.updateObjective(objective.id, { status: 'working' });
+        }
+      });
+
+      it('walks every objective exactly once via page tokens', async () => {
+        const seen: string[] = [];
+        let pageToken: string | undefined;
+        do {
+          const page = await store.listObjectives({ pageSize: 2, pageToken });
+          expect(page.objectives.length).toBeLessThanOrEqual(2);
+          expect(page.totalSize).toBe(5);
+          seen.push(...page.objectives.map(o => o.id));
+          pageToken = page.nextPageToken;
+        } while (pageToken);
+
+        expect(seen).toHaveLength(5);
+        expect(new Set(seen).size).toBe(5);
+      });
+
+      it('omits nextPageToken on the last page', async () => {
+        const page = await store.listObjectives({ pageSize: 5 });
+
+        expect(page.objectives).toHaveLength(5);
+        expect(page.nextPageToken).toBeUndefined();
+      });
+
+      it('filters by status before paginating', async () => {
+        const page = await store.listObjectives({ status: 'working', pageSize: 1 });
+
+        expect(page.totalSize).toBe(2);
+        expect(page.objectives[0].status).toBe('working');
+        expect(page.nextPageToken).toBeDefined();
+      });
+    });
+
+    describe('listObjectives filters', () => {
+      it('filters by any of several statuses', async () => {
+        const working = await store.createObjective({ name: 'Working' });
+        const blocked = await store.createObjective({ name: 'Blocked' });
+        await store.createObjective({ name: 'Submitted' });
+        await store.updateObjective(working.id, { status: 'working' });
+        await store.updateObjective(blocked.id, { status: 'blocked' });
+
+        const page = await store.listObjectives({ status: ['working', 'blocked'] });
+        expect(page.objectives.map(o => o.id).sort()).toEqual([working.id, blocked.id].sort());
+      });
+
+      it('searches name and description case-insensitively', async () => {
+        const byName = await store.createObjective({ name: 'Write Blog post' });
+        const byDescription = await store.createObjective({ name: 'Draft', description: 'A blog about AI' });
+        await store.createObjective({ name: 'Research' });
+
+        const page = await store.listObjectives({ query: 'BLOG' });
+        expect(page.objectives.map(o => o.id).sort()).toEqual([byName.id, byDescription.id].sort());
+      });
+
+      it('matches every given metadata value', async () => {
+        const match = await store.createObjective({ name: 'A', metadata: { owner: 'team-x', priority: 1, urgent: true } });
+        await store.createObjective({ name: 'B', metadata: { owner: 'team-x', priority: 2, urgent: true } });
+        await store.createObjective({ name: 'C', metadata: { owner: 'team-y', priority: 1, urgent: true } });
+        await store.createObjective({ name: 'D', metadata: { owner: 'team-x', priority: '1', urgent: true } });
+
+        const page = await store.listObjectives({ metadata: { owner: 'team-x', priority: 1, urgent: true } });
+        expect(page.objectives.map(o => o.id)).toEqual([match.id]);
+      });
+
+      it('filters by created and updated date ranges', async () => {
+        const old = await store.createObjective({ name: 'Old' });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const cutoff = new Date().toISOString();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const recent = await store.createObjective({ name: 'Recent' });
+
+        expect((await store.listObjectives({ createdAfter: cutoff })).objectives.map(o => o.id)).toEqual([recent.id]);
+        expect((await store.listObjectives({ createdBefore: cutoff })).objectives.map(o => o.id)).toEqual([old.id]);
+
+        await store.updateObjective(old.id, { name: 'Old, touched' });
+        expect((await store.listObjectives({ updatedAfter: cutoff })).totalSize).toBe(2);
+        expect((await store.listObjectives({ updatedBefore: cutoff })).totalSize).toBe(0);
+      });
+
+      it('sorts by the given field and direction', async () => {
+        const b = await store.createObjective({ name: 'B' });
+        const a = await store.createObjective({ name: 'A' });
+        const c = await store.createObjective({ name: 'C' });
+
+        const ascending = await store.listObjectives({ orderBy: 'name', direction: 'asc' });
+        expect(ascending.objectives.map(o => o.id)).toEqual([a.id, b.id, c.id]);
+
+        const descending = await store.listObjectives({ orderBy: 'name' });
+        expect(descending.objectives.map(o => o.id)).toEqual([c.id, b.id, a.id]);
+
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await store.updateObjective(b.id, { name: 'B, touched' });
+        const byUpdate = await store.listObjectives({ orderBy: 'updatedAt' });
+        expect(byUpdate.objectives[0].id).toBe(b.id);
+      });
+    });
+
+    describe('listPlans', () => {
+      async function createPlans() {
+        const first = await store.createObjective({ name: 'First' });
+        const second = await store.createObjective({ name: 'Second' });
+        const research = await store.createPlan({ objectiveId: first.id, name: 'Research' });
+        const writing = await store.createPlan({ objectiveId: first.id, name: 'Writing', dependencies: [research.id] });
+        const review = await store.createPlan({ objectiveId: second.id, name: 'Review' });
+        return { first, second, research, writing, review };
+      }
+
+      it('lists plans across objectives without their tasks', async () => {
+        const { plan } = await createPlanWithTasks();
+        await createPlans();
+
+        const page = await store.listPlans({});
+        expect(page.totalSize).toBe(4);
+        expect(page.plans.find(p => p.id === plan.id)?.tasks).toEqual([]);
+      });
+
+      it('filters by objective and by any of several statuses', async () => {
+        const { first, research, writing, review } = await createPlans();
+        await store.updatePlan(research.id, { status: 'working' });
+        await store.updatePlan(review.id, { status: 'blocked' });
+
+        const byObjective = await store.listPlans({ objectiveId: first.id });
+        expect(byObjective.plans.map(p => p.id).sort()).toEqual([research.id, writing.id].sort());
+
+        const byStatus = await store.listPlans({ status: ['working', 'blocked'] });
+        expect(byStatus.plans.map(p => p.id).sort()).toEqual([research.id, review.id].sort());
+
+        const single = await store.listPlans({ status: 'blocked' });
+        expect(single.plans.map(p => p.id)).toEqual([review.id]);
+      });
+
+      it('filters by unmet dependencies', async () => {
+        const { research, writing, review } = await createPlans();
+
+        expect((await store.listPlans({ hasUnmetDependencies: true })).plans.map(p => p.id)).toEqual([writing.id]);
+        expect((await store.listPlans({ hasUnmetDependencies: false })).plans.map(p => p.id).sort())
+          .toEqual([research.id, review.id].sort());
+
+        await store.updatePlan(research.id, { status: 'completed' });
+        expect((await store.listPlans({ hasUnmetDependencies: true })).totalSize).toBe(0);
+      });
+
+      it('filters by updatedAt range', async () => {
+        const { research, writing, review } = await createPlans();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const cutoff = new Date().toISOString();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await store.updatePlan(review.id, { name: 'Review again' });
+
+        expect((await store.listPlans({ updatedAfter: cutoff })).plans.map(p => p.id)).toEqual([review.id]);
+        expect((await store.listPlans({ updatedBefore: cutoff })).plans.map(p => p.id).sort())
+          .toEqual([research.id, writing.id].sort());
+      });
+
+      it('walks every matching plan exactly once via page tokens', async () => {
+        await createPlans();
+        await createPlans();
+
+        const seen: string[] = [];
+        let pageToken: string | undefined;
+        do {
+          const page = await store.listPlans({ hasUnmetDependencies: false, pageSize: 3, pageToken });
+          expect(page.totalSize).toBe(4);
+          seen.push(...page.plans.map(p => p.id));
+          pageToken = page.nextPageToken;
+        } while (pageToken);
+
+        expect(new Set(seen).size).toBe(4);
+      });
+
+      it('hides soft-deleted plans unless includeDeleted', async () => {
+        const { research } = await createPlans();
+        await store.updatePlan(research.id, { deletedAt: '2026-01-01T00:00:00.000Z' });
+
+        expect((await store.listPlans({})).totalSize).toBe(2);
+        expect((await store.listPlans({ includeDeleted: true })).totalSize).toBe(3);
+      });
+
+      it('hides plans of soft-deleted objectives unless includeDeleted', async () => {
+        const { first, review } = await createPlans();
+        await store.updateObjective(first.id, { deletedAt: '2026-01-01T00:00:00.000Z' });
+
+        expect((await store.listPlans({})).plans.map(p => p.id)).toEqual([review.id]);
+        expect((await store.listPlans({ objectiveId: first.id })).totalSize).toBe(0);
+        expect((await store.listPlans({ includeDeleted: true })).totalSize).toBe(3);
+      });
+    });
+
+    describe('soft deletion', () => {
+      it('stores and clears deletedAt', async () => {
+        const { objective, plan } = await createPlanWithTasks();
+
+        await store.updateObjective(objective.id, { deletedAt: '2026-01-01T00:00:00.000Z' });
+        await store.updatePlan(plan.id, { deletedAt: '2026-01-01T00:00:00.000Z' });
+        expect((await store.getObjective(objective.id))?.deletedAt).toBe('2026-01-01T00:00:00.000Z');
+        expect((await store.getPlan(plan.id))?.deletedAt).toBe('2026-01-01T00:00:00.000Z');
+
+        await store.updateObjective(objective.id, { deletedAt: undefined });
+        expect((await store.getObjective(objective.id))?.deletedAt).toBeUndefined();
+      });
+
+      it('hides soft-deleted objectives from listObjectives unless includeDeleted', async () => {
+        const kept = await store.createObjective({ name: 'Kept' });
+        const deleted = await store.createObjective({ name: 'Deleted' });
+        await store.updateObjective(deleted.id, { deletedAt: '2026-01-01T00:00:00.000Z' });
+
+        const page = await store.listObjectives({});
+        expect(page.objectives.map(o => o.id)).toEqual([kept.id]);
+        expect(page.totalSize).toBe(1);
+
+        const all = await store.listObjectives({ includeDeleted: true });
+        expect(all.objectives.map(o => o.id).sort()).toEqual([kept.id, deleted.id].sort());
+      });
+    });
+
+    // =========================================================================
+    // A2A linking
+    // =========================================================================
+
+    describe('linkA2ATask', () => {
+      it('links a task', async () => {
+        const { plan } = await createPlanWithTasks();
+
+        await store.linkA2ATask(plan.tasks![0].id, 'a2a-1');
+
+        expect((await store.getPlanTask(plan.tasks![0].id))?.a2aTaskId).toBe('a2a-1');
+      });
+
+      it('rejects a missing task', async () => {
+        await expect(store.linkA2ATask('non-existent', 'a2a-1')).rejects.toThrow();
+      });
+    });
+
+    // =========================================================================
+    // Transactions
+    // =========================================================================
+
+    describe('transaction', () => {
+      it('commits changes and returns the result', async ({ skip }) => {
+        if (!store.transaction) return skip();
+        const { plan } = await createPlanWithTasks();
+
+        const result = await store.transaction(async tx => {
+          await tx.updatePlan(plan.id, { status: 'working' });
+          await tx.updatePlanTask(plan.tasks![0].id, { status: 'working' });
+          return 'done';
+        });
+
+        expect(result).toBe('done');
+        expect((await store.getPlan(plan.id))?.status).toBe('working');
+        expect((await store.getPlanTask(plan.tasks![0].id))?.status).toBe('working');
+      });
+
+      it('rolls back every change when fn throws', async ({ skip }) => {
+        if (!store.transaction) return skip();
+        const { objective, plan } = await createPlanWithTasks();
+
+        await expect(store.transaction(async tx => {
+          await tx.updateObjective(objective.id, { status: 'working' });
+          await tx.addPlanTasks({ planId: plan.id, tasks: [{ name: 'D' }], position: 0 });
+          await tx.linkA2ATask(plan.tasks![0].id, 'a2a-1');
+          await tx.createObjective({ name: 'Other' });
+          await tx.deletePlan(plan.id);
+          throw new Error('abort');
+        })).rejects.toThrow('abort');
+
+        expect((await store.getObjective(objective.id))?.status).toBe('submitted');
+        const tasks = await store.getTasksForPlan(plan.id);
+        expect(tasks.map(t => t.name)).toEqual(['A', 'B', 'C']);
+        expect(tasks.map(t => t.taskIndex)).toEqual([0, 1, 2]);
+        expect(tasks[0].a2aTaskId).toBeUndefined();
+        expect((await store.listObjectives({})).totalSize).toBe(1);
+      });
+
+      it('does not interleave concurrent transactions', async ({ skip }) => {
+        if (!store.transaction) return skip();
+        const objective = await store.createObjective({ name: 'Objective' });
+        const log: string[] = [];
+
+        const run = (label: string) => store.transaction!(async tx => {
+          log.push(`${label} start`);
+          const current = await tx.getObjective(objective.id);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          await tx.updateObjective(objective.id, {
+            metadata: { ...current!.metadata, [label]: true },
+          });
+          log.push(`${label} end`);
+        });
+        await Promise.all([run('a'), run('b')]);
+
+        expect(log).toEqual(['a start', 'a end', 'b start', 'b end']);
+        expect((await store.getObjective(objective.id))?.metadata).toEqual({ a: true, b: true });
+      });
+
+      it('does not undo writes made outside it', async ({ skip }) => {
+        if (!store.transaction) return skip();
+        let entered!: () => void;
+        const inside = new Promise<void>(resolve => { entered = resolve; });
+
+        const failing = store.transaction(async tx => {
+          await tx.createObjective({ name: 'Inside' });
+          entered();
+          await new Promise(resolve => setTimeout(resolve, 5));
+          throw new Error('abort');
+        });
+        const rolledBack = expect(failing).rejects.toThrow('abort');
+        await inside;
+        const outside = await store.createObjective({ name: 'Outside' });
+        await rolledBack;
+
+        expect(await store.getObjective(outside.id)).not.toBeNull();
+        expect((await store.listObjectives({})).objectives.map(o => o.name)).toEqual(['Outside']);
+      });
+
+      it('rolls back a nested transaction without undoing the outer one', async ({ skip }) => {
+        if (!store.transaction) return skip();
+
+        await store.transaction(async tx => {
+          await tx.createObjective({ name: 'Before' });
+          await expect(tx.transaction!(async inner => {
+            await inner.createObjective({ name: 'Nested' });
+            throw new Error('abort');
+          })).rejects.toThrow('abort');
+          await tx.transaction!(inner => inner.createObjective({ name: 'Committed' }));
+          await tx.createObjective({ name: 'After' });
+        });
+
+        const { objectives } = await store.listObjectives({});
+        expect(objectives.map(o => o.name).sort()).toEqual(['After', 'Before', 'Committed']);
+      });
+
+      it('keeps working after a rolled-back transaction', async ({ skip }) => {
+        if (!store.transaction) return skip();
+
+        await store.transaction(async () => {
+          throw new Error('abort');
+        }).catch(() => undefined);
+        const objective = await store.transaction(tx => tx.createObjective({ name: 'After' }));
+
+        expect(await store.getObjective(objective.id)).not.toBeNull();
+      });
+    });
+
+    // =========================================================================
+    // Status history
+    // =========================================================================
+
+    describe('status history', () => {
+      it('returns the entries of one entity, oldest first', async ({ skip }) => {
+        if (!store.addStatusHistory || !store.getStatusHistory) return skip();
+        const { objective, plan } = await createPlanWithTasks();
+
+        await store.addStatusHistory([
+          { entity: 'plan', id: plan.id, from: 'pending', to: 'working', timestamp: '2025-01-01T00:00:00.000Z' },
+          {
+            entity: 'objective',
+            id: objective.id,
+            from: 'submitted',
+            to: 'working',
+            timestamp: '2025-01-01T00:00:00.000Z',
+            actor: 'alice',
+            reason: 'Started',
+          },
+        ]);
+        await store.addStatusHistory([
+          { entity: 'plan', id: plan.id, from: 'working', to: 'blocked', timestamp: '2025-01-02T00:00:00.000Z' },
+        ]);
+
+        expect((await store.getStatusHistory('plan', plan.id)).map(e => e.to)).toEqual(['working', 'blocked']);
+        expect(await store.getStatusHistory('objective', objective.id)).toEqual([{
+          entity: 'objective',
+          id: objective.id,
+          from: 'submitted',
+          to: 'working',
+          timestamp: '2025-01-01T00:00:00.000Z',
+          actor: 'alice',
+          reason: 'Started',
+        }]);
+        expect(await store.getStatusHistory('plan', 'non-existent')).toEqual([]);
+      });
+
+      it('removes history with hard-deleted entities', async ({ skip }) => {
+        if (!store.addStatusHistory || !store.getStatusHistory) return skip();
+        const { objective, plan } = await createPlanWithTasks();
+        const other = await store.createPlan({ objectiveId: objective.id, name: 'Other', tasks: [{ name: 'D' }] });
+        const at = '2025-01-01T00:00:00.000Z';
+        await store.addStatusHistory([
+          { entity: 'objective', id: objective.id, from: 'submitted', to: 'working', timestamp: at },
+          { entity: 'plan', id: plan.id, from: 'pending', to: 'working', timestamp: at },
+          { entity: 'task', id: plan.tasks![0].id, from: 'pending', to: 'working', timestamp: at },
+          { entity: 'task', id: other.tasks![0].id, from: 'pending', to: 'working', timestamp: at },
+        ]);
+
+        await store.deletePlan(plan.id);
+        expect(await store.getStatusHistory('plan', plan.id)).toEqual([]);
+        expect(await store.getStatusHistory('task', plan.tasks![0].id)).toEqual([]);
+        expect(await store.getStatusHistory('objective', objective.id)).toHaveLength(1);
+        expect(await store.getStatusHistory('task', other.tasks![0].id)).toHaveLength(1);
+
+        await store.deleteObjective(objective.id);
+        expect(await store.getStatusHistory('objective', objective.id)).toEqual([]);
+        expect(await store.getStatusHistory('task', other.tasks![0].id)).toEqual([]);
+      });
+
+      it('rolls back entries with their transaction', async ({ skip }) => {
+        if (!store.addStatusHistory || !store.getStatusHistory || !store.transaction) return skip();
+        const objective = await store.createObjective({ name: 'Objective' });
+
+        await expect(store.transaction(async tx => {
+          await tx.addStatusHistory!([
+            { entity: 'objective', id: objective.id, from: 'submitted', to: 'working', timestamp: new Date().toISOString() },
+          ]);
+          throw new Error('abort');
+        })).rejects.toThrow('abort');
+
+        expect(await store.getStatusHistory('objective', objective.id)).toEqual([]);
+      });
+    });
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Tests for ObservableOPTStore.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryOPTStore } from './store.js';
+import { ObservableOPTStore, formatServerSentEvent } from './events.js';
+import { OPTChangeEvent } from './types.js';
+import { runOPTStoreConformance } from './conformance.js';
+
+describe('ObservableOPTStore', () => {
+  let store: ObservableOPTStore;
+  let events: OPTChangeEvent[];
+
+  beforeEach(() => {
+    store = new ObservableOPTStore(new InMemoryOPTStore());
+    events = [];
+    store.subscribe(event => events.push(event));
+  });
+
+  describe('subscribe', () => {
+    it('emits an event per write', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      await store.updateObjective(obj.id, { status: 'working' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      await store.updatePlan(plan.id, { status: 'working' });
+      await store.addPlanTasks({ planId: plan.id, tasks: [{ name: 'B' }] });
+      await store.linkA2ATask(plan.tasks![0].id, 'a2a-1');
+      await store.deletePlan(plan.id);
+      await store.deleteObjective(obj.id);
+
+      expect(events.map(e => e.type)).toEqual([
+        'objective.created',
+        'objective.updated',
+        'plan.created',
+        'plan.updated',
+        'plan.tasksAdded',
+        'planTask.linked',
+        'plan.deleted',
+        'objective.deleted',
+      ]);
+      expect(events.every(e => e.objectiveId === obj.id)).toBe(true);
+    });
+
+    it('emits statusChanged only when a task status changes', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      const taskId = plan.tasks![0].id;
+      events = [];
+
+      await store.updatePlanTask(taskId, { name: 'Renamed' });
+      await store.updatePlanTask(taskId, { status: 'working' });
+
+      expect(events.map(e => e.type)).toEqual([
+        'planTask.updated',
+        'planTask.updated',
+        'planTask.statusChanged',
+      ]);
+      expect(events[2]).toMatchObject({ from: 'pending', to: 'working' });
+    });
+
+    it('does not emit for writes to missing entities', async () => {
+      await store.updateObjective('non-existent', { name: 'x' });
+      await store.updatePlan('non-existent', { name: 'x' });
+      await store.updatePlanTask('non-existent', { name: 'x' });
+      await store.deletePlan('non-existent');
+      await store.deleteObjective('non-existent');
+
+      expect(events).toEqual([]);
+    });
+
+    it('stops emitting after unsubscribe', async () => {
+      const received: OPTChangeEvent[] = [];
+      const unsubscribe = store.subscribe(event => received.push(event));
+
+      await store.createObjective({ name: 'First' });
+      unsubscribe();
+      await store.createObjective({ name: 'Second' });
+
+      expect(received).toHaveLength(1);
+    });
+
+    it('isolates writes from failing listeners', async () => {
+      store.subscribe(() => {
+        throw new Error('listener failed');
+      });
+
+      await expect(store.createObjective({ name: 'Objective' })).resolves.toBeDefined();
+      expect(events).toHaveLength(1);
+    });
+  });
+
+  describe('watch', () => {
+    it('buffers events for one objective', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const other = await store.createObjective({ name: 'Other' });
+      const watcher = store.watch(obj.id);
+
+      await store.updateObjective(other.id, { name: 'Ignored' });
+      await store.updateObjective(obj.id, { name: 'Renamed' });
+
+      const next = await watcher.next();
+      expect(next.value).toMatchObject({ type: 'objective.updated', objectiveId: obj.id });
+      await watcher.return?.();
+    });
+
+    it('ends after the objective is deleted', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const watcher = store.watch(obj.id);
+
+      await store.deleteObjective(obj.id);
+
+      expect((await watcher.next()).value?.type).toBe('objective.deleted');
+      expect((await watcher.next()).done).toBe(true);
+    });
+
+    it('ends when the signal aborts', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const controller = new AbortController();
+      const watcher = store.watch(obj.id, controller.signal);
+
+      const pending = watcher.next();
+      controller.abort();
+
+      expect((await pending).done).toBe(true);
+    });
+  });
+
+  describe('transaction', () => {
+    it('emits events only after the transaction commits', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      events = [];
+
+      await store.transaction!(async tx => {
+        await tx.updateObjective(obj.id, { status: 'working' });
+        await tx.createPlan({ objectiveId: obj.id, name: 'Plan' });
+        expect(events).toEqual([]);
+      });
+
+      expect(events.map(e => e.type)).toEqual(['objective.updated', 'plan.created']);
+    });
+
+    it('drops events of a rolled-back transaction', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      events = [];
+
+      await expect(store.transaction!(async tx => {
+        await tx.updateObjective(obj.id, { status: 'working' });
+        throw new Error('abort');
+      })).rejects.toThrow('abort');
+
+      expect(events).toEqual([]);
+    });
+
+    it('is absent when the wrapped store has no transactions', () => {
+      const inner = new InMemoryOPTStore();
+      (inner as { transaction?: unknown }).transaction = undefined;
+
+      expect(new ObservableOPTStore(inner).transaction).toBeUndefined();
+    });
+  });
+
+  describe('formatServerSentEvent', () => {
+    it('formats a data frame', () => {
+      expect(formatServerSentEvent({ a: 1 })).toBe('data: {"a":1}\n\n');
+    });
+  });
+});
+
+runOPTStoreConformance('ObservableOPTStore', {
+  create: () => new ObservableOPTStore(new InMemoryOPTStore()),
+});
@@ -0,0 +1,308 @@
+/**
+ * Change events for OPT.
+ * 
+ * ObservableOPTStore wraps any OPTStore and emits an OPTChangeEvent after
+ * every successful write, so clients can be pushed updates instead of
+ * polling objectives/get.
+ */
+
+import {
+  OPTStore,
+  Objective,
+  Plan,
+  PlanTask,
+  CreateObjectiveRequest,
+  CreateObjectiveWithPlansRequest,
+  CreatePlanRequest,
+  AddPlanTasksRequest,
+  ListObjectivesRequest,
+  ListObjectivesResponse,
+  ListPlansRequest,
+  ListPlansResponse,
+  OPTChangeEvent,
+  StatusHistoryEntry,
+} from './types.js';
+import { timestamp } from './store.js';
+
+export type OPTChangeListener = (event: OPTChangeEvent) => void;
+
+/** Distributes Omit over the event union. */
+type EventBody<E> = E extends unknown ? Omit<E, 'timestamp'> : never;
+
+/**
+ * OPTStore decorator that emits change events.
+ * 
+ * @example
+ * ```typescript
+ * const store = new ObservableOPTStore(new InMemoryOPTStore());
+ * const unsubscribe = store.subscribe(event => console.log(event.type));
+ * ```
+ */
+export class ObservableOPTStore implements OPTStore {
+  private store: OPTStore;
+  private listeners: Set<OPTChangeListener> = new Set();
+
+  /** Present when the wrapped store supports it */
+  createObjectiveTree?: (data: CreateObjectiveWithPlansRequest) => Promise<Objective>;
+
+  /**
+   * Present when the wrapped store supports it. Events are held back until
+   * the transaction commits and dropped if it rolls back.
+   */
+  transaction?: <T>(fn: (store: OPTStore) => Promise<T>) => Promise<T>;
+
+  /** Present when the wrapped store supports it */
+  addStatusHistory?: (entries: StatusHistoryEntry[]) => Promise<void>;
+  getStatusHistory?: (entity: StatusHistoryEntry['entity'], id: string) => Promise<StatusHistoryEntry[]>;
+
+  constructor(store: OPTStore) {
+    this.store = store;
+
+    if (store.createObjectiveTree) {
+      this.createObjectiveTree = async data => {
+        const objective = await store.createObjectiveTree!(data);
+        const { plans = [], ...created } = objective;
+        this.emit({ type: 'objective.created', objectiveId: objective.id, objective: { ...created, plans: [] } });
+        for (const plan of plans) {
+          this.emit({ type: 'plan.created', objectiveId: objective.id, plan });
+        }
+        return objective;
+      };
+    }
+
+    if (store.transaction) {
+      this.transaction = async fn => {
+        let events: OPTChangeEvent[] = [];
+        const result = await store.transaction!(tx => {
+          events = [];
+          const observed = new ObservableOPTStore(tx);
+          observed.subscribe(event => events.push(event));
+          return fn(observed);
+        });
+        for (const event of events) this.publish(event);
+        return result;
+      };
+    }
+
+    if (store.addStatusHistory && store.getStatusHistory) {
+      this.addStatusHistory = entries => store.addStatusHistory!(entries);
+      this.getStatusHistory = (entity, id) => store.getStatusHistory!(entity, id);
+    }
+  }
+
+  /**
+   * Register a listener for every change. Returns a function that removes it.
+   */
+  subscribe(listener: OPTChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Iterate over changes to one objective tree.
+   * 
+   * Events are buffered from the moment this is called. Iteration ends after
+   * the objective is deleted, when `signal` aborts, or when the consumer
+   * stops iterating.
+   */
+  watch(objectiveId: string, signal?: AbortSignal): AsyncIterableIterator<OPTChangeEvent> {
+    const queue: OPTChangeEvent[] = [];
+    let wake: (() => void) | null = null;
+    let closed = false;
+
+    const close = () => {
+      closed = true;
+      unsubscribe();
+      signal?.removeEventListener('abort', close);
+      wake?.();
+    };
+
+    const unsubscribe = this.subscribe(event => {
+      if (event.objectiveId !== objectiveId) return;
+      queue.push(event);
+      if (event.type === 'objective.deleted') {
+        close();
+      } else {
+        wake?.();
+      }
+    });
+
+    if (signal?.aborted) close();
+    signal?.addEventListener('abort', close);
+
+    return {
+      next: async () => {
+        while (queue.length === 0 && !closed) {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+          wake = null;
+        }
+        const event = queue.shift();
+        return event ? { value: event, done: false } : { value: undefined, done: true };
+      },
+      return: async () => {
+        close();
+        queue.length = 0;
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  private emit(body: EventBody<OPTChangeEvent>): void {
+    this.publish({ ...body, timestamp: timestamp() } as OPTChangeEvent);
+  }
+
+  private publish(event: OPTChangeEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not fail the write that triggered it
+      }
+    }
+  }
+
+  // =========================================================================
+  // Objectives
+  // =========================================================================
+
+  async createObjective(data: CreateObjectiveRequest): Promise<Objective> {
+    const objective = await this.store.createObjective(data);
+    this.emit({ type: 'objective.created', objectiveId: objective.id, objective });
+    return objective;
+  }
+
+  getObjective(id: string): Promise<Objective | null> {
+    return this.store.getObjective(id);
+  }
+
+  listObjectives(params: ListObjectivesRequest): Promise<ListObjectivesResponse> {
+    return this.store.listObjectives(params);
+  }
+
+  async updateObjective(id: string, updates: Partial<Objective>): Promise<Objective | null> {
+    const objective = await this.store.updateObjective(id, updates);
+    if (objective) {
+      this.emit({ type: 'objective.updated', objectiveId: id, objective });
+    }
+    return objective;
+  }
+
+  async deleteObjective(id: string): Promise<boolean> {
+    const deleted = await this.store.deleteObjective(id);
+    if (deleted) {
+      this.emit({ type: 'objective.deleted', objectiveId: id });
+    }
+    return deleted;
+  }
+
+  // =========================================================================
+  // Plans
+  // =========================================================================
+
+  async createPlan(data: CreatePlanRequest): Promise<Plan> {
+    const plan = await this.store.createPlan(data);
+    this.emit({ type: 'plan.created', objectiveId: plan.objectiveId, plan });
+    return plan;
+  }
+
+  getPlan(id: string): Promise<Plan | null> {
+    return this.store.getPlan(id);
+  }
+
+  getPlansForObjective(objectiveId: string): Promise<Plan[]> {
+    return this.store.getPlansForObjective(objectiveId);
+  }
+
+  listPlans(params: ListPlansRequest): Promise<ListPlansResponse> {
+    return this.store.listPlans(params);
+  }
+
+  async updatePlan(id: string, updates: Partial<Plan>): Promise<Plan | null> {
+    const plan = await this.store.updatePlan(id, updates);
+    if (plan) {
+      this.emit({ type: 'plan.updated', objectiveId: plan.objectiveId, plan });
+    }
+    return plan;
+  }
+
+  async deletePlan(id: string): Promise<boolean> {
+    const plan = await this.store.getPlan(id);
+    const deleted = await this.store.deletePlan(id);
+    if (plan && deleted) {
+      this.emit({ type: 'plan.deleted', objectiveId: plan.objectiveId, planId: id });
+    }
+    return deleted;
+  }
+
+  // =========================================================================
+  // Tasks
+  // =========================================================================
+
+  async addPlanTasks(data: AddPlanTasksRequest): Promise<PlanTask[] | null> {
+    const tasks = await this.store.addPlanTasks(data);
+    if (tasks && tasks.length > 0) {
+      this.emit({
+        type: 'plan.tasksAdded',
+        objectiveId: tasks[0].objectiveId,
+        planId: data.planId,
+        tasks,
+      });
+    }
+    return tasks;
+  }
+
+  getPlanTask(id: string): Promise<PlanTask | null> {
+    return this.store.getPlanTask(id);
+  }
+
+  getTasksForPlan(planId: string): Promise<PlanTask[]> {
+    return this.store.getTasksForPlan(planId);
+  }
+
+  async updatePlanTask(id: string, updates: Partial<PlanTask>): Promise<PlanTask | null> {
+    const previous = await this.store.getPlanTask(id);
+    const task = await this.store.updatePlanTask(id, updates);
+    if (!task) return null;
+
+    this.emit({ type: 'planTask.updated', objectiveId: task.objectiveId, task });
+    if (previous?.status !== task.status) {
+      this.emit({
+        type: 'planTask.statusChanged',
+        objectiveId: task.objectiveId,
+        task,
+        from: previous?.status,
+        to: task.status,
+      });
+    }
+    return task;
+  }
+
+  async linkA2ATask(planTaskId: string, a2aTaskId: string): Promise<void> {
+    await this.store.linkA2ATask(planTaskId, a2aTaskId);
+    const task = await this.store.getPlanTask(planTaskId);
+    if (task) {
+      this.emit({ type: 'planTask.linked', objectiveId: task.objectiveId, task });
+    }
+  }
+}
+
+/**
+ * Format a message as one Server-Sent Events frame.
+ * 
+ * @example
+ * ```typescript
+ * for await (const response of handler.handleStream(request)) {
+ *   res.write(formatServerSentEvent(response));
+ * }
+ * ```
+ */
+export function formatServerSentEvent(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
@@ -134,6 +134,7 @@ describe('Metadata Helpers', () => {
     name: 'Test Task',
     taskIndex: 2,
     dependencies: ['task-100', 'task-101'],
+    version: 1,
   };
 
   describe('setOPTMetadata', () => {
@@ -245,6 +246,7 @@ describe('Metadata Helpers', () => {
       id: 'obj-123',
       name: 'Test Objective',
       status: 'working',
+      version: 1,
       createdAt: '2026-02-15T00:00:00Z',
       updatedAt: '2026-02-15T00:00:00Z',
     };
@@ -277,6 +279,7 @@ describe('Metadata Helpers', () => {
       objectiveId: 'obj-456',
       name: 'Test Plan',
       status: 'pending',
+      version: 1,
       createdAt: '2026-02-15T00:00:00Z',
       updatedAt: '2026-02-15T00:00:00Z',
     };
@@ -3,8 +3,28 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { OPTHandler, JSON_RPC_ERRORS, isValidObjectiveTransition, isValidPlanTransition } from './handler.js';
+import {
+  OPTHandler,
+  OPTError,
+  JSON_RPC_ERRORS,
+  JsonRpcResponse,
+} from './handler.js';
+import {
+  isValidObjectiveTransition,
+  isValidPlanTransition,
+  isValidPlanTaskTransition,
+  VALID_OBJECTIVE_TRANSITIONS,
+  VALID_PLAN_TRANSITIONS,
+} from './transitions.js';
 import { InMemoryOPTStore } from './store.js';
+import {
+  CreateObjectiveResponse,
+  CreatePlanRequest,
+  CreatePlanResponse,
+  ListObjectivesResponse,
+  Plan,
+  SubscribeObjectiveUpdate,
+} from './types.js';
 
 describe('OPTHandler', () => {
   let store: InMemoryOPTStore;
@@ -22,12 +42,26 @@ describe('OPTHandler', () => {
   describe('canHandle', () => {
     it('returns true for supported methods', () => {
       expect(handler.canHandle('objectives/create')).toBe(true);
+      expect(handler.canHandle('objectives/createWithPlans')).toBe(true);
       expect(handler.canHandle('objectives/get')).toBe(true);
       expect(handler.canHandle('objectives/list')).toBe(true);
       expect(handler.canHandle('objectives/update')).toBe(true);
+      expect(handler.canHandle('objectives/replan')).toBe(true);
+      expect(handler.canHandle('objectives/delete')).toBe(true);
+      expect(handler.canHandle('objectives/restore')).toBe(true);
+      expect(handler.canHandle('objectives/history')).toBe(true);
       expect(handler.canHandle('plans/create')).toBe(true);
       expect(handler.canHandle('plans/get')).toBe(true);
+      expect(handler.canHandle('plans/list')).toBe(true);
       expect(handler.canHandle('plans/update')).toBe(true);
+      expect(handler.canHandle('plans/addTasks')).toBe(true);
+      expect(handler.canHandle('plans/delete')).toBe(true);
+      expect(handler.canHandle('plans/history')).toBe(true);
+      expect(handler.canHandle('planTasks/get')).toBe(true);
+      expect(handler.canHandle('planTasks/update')).toBe(true);
+      expect(handler.canHandle('planTasks/link')).toBe(true);
+      expect(handler.canHandle('planTasks/history')).toBe(true);
+      expect(handler.canHandle('objectives/subscribe')).toBe(true);
     });
 
     it('returns false for unsupported methods', () => {
@@ -41,7 +75,7 @@ describe('OPTHandler', () => {
       const methods = handler.getSupportedMethods();
       expect(methods).toContain('objectives/create');
       expect(methods).toContain('plans/update');
-      expect(methods).toHaveLength(7);
+      expect(methods).toHaveLength(21);
     });
   });
 
@@ -124,6 +158,7 @@ describe('OPTHandler', () => {
     it('gets an objective', async () => {
       const createRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Test' },
       });
@@ -166,6 +201,7 @@ describe('OPTHandler', () => {
     it('excludes plans when includePlans is false', async () => {
       const createRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Test' },
       });
@@ -173,12 +209,14 @@ describe('OPTHandler', () => {
       
       await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: { objectiveId: objId, name: 'Plan' },
       });
 
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/get',
         params: { id: objId, includePlans: false },
       });
@@ -189,6 +227,7 @@ describe('OPTHandler', () => {
     it('excludes tasks when includeTasks is false', async () => {
       const createRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Test' },
       });
@@ -196,6 +235,7 @@ describe('OPTHandler', () => {
       
       await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: {
           objectiveId: objId,
@@ -206,6 +246,7 @@ describe('OPTHandler', () => {
 
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/get',
         params: { id: objId, includeTasks: false },
       });
@@ -222,11 +263,13 @@ describe('OPTHandler', () => {
     it('lists objectives', async () => {
       await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Obj 1' },
       });
       await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Obj 2' },
       });
@@ -244,22 +287,26 @@ describe('OPTHandler', () => {
     it('filters by status', async () => {
       const createRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Obj 1' },
       });
       await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Obj 2' },
       });
       await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/update',
         params: { id: createRes.result?.objective.id, status: 'working' },
       });
 
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/list',
         params: { status: 'working' },
       });
@@ -277,6 +324,52 @@ describe('OPTHandler', () => {
 
       expect(response.result?.objectives).toBeDefined();
     });
+
+    it('combines filters and sorting', async () => {
+      await store.createObjective({ name: 'Blog: intro', metadata: { owner: 'team-x' } });
+      await store.createObjective({ name: 'Blog: outro', metadata: { owner: 'team-x' } });
+      await store.createObjective({ name: 'Blog: other team', metadata: { owner: 'team-y' } });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/list',
+        params: {
+          status: ['submitted', 'working'],
+          query: 'blog',
+          metadata: { owner: 'team-x' },
+          orderBy: 'name',
+          direction: 'asc',
+        },
+      });
+
+      expect(response.result?.objectives.map((o: { name: string }) => o.name)).toEqual([
+        'Blog: intro',
+        'Blog: outro',
+      ]);
+    });
+
+    it('rejects invalid filters', async () => {
+      const cases: [unknown, string][] = [
+        [{ status: ['working', 'stuck'] }, 'Invalid status: stuck'],
+        [{ orderBy: 'priority' }, 'Invalid orderBy: priority'],
+        [{ direction: 'up' }, 'Invalid direction: up'],
+        [{ createdAfter: 'last week' }, 'Invalid createdAfter: last week'],
+        [{ metadata: { owner: { team: 'x' } } }, 'metadata must map keys to strings, numbers or booleans'],
+      ];
+
+      for (const [params, message] of cases) {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'objectives/list',
+          params,
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+        expect(response.error?.message).toBe(message);
+      }
+    });
   });
 
   // ===========================================================================
@@ -287,6 +380,7 @@ describe('OPTHandler', () => {
     it('updates an objective', async () => {
       const createRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Old Name' },
       });
@@ -302,9 +396,31 @@ describe('OPTHandler', () => {
       expect(response.result?.objective.name).toBe('New Name');
     });
 
+    it('ignores deletedAt and version from the client', async () => {
+      const createRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/create',
+        params: { name: 'Test' },
+      });
+      const objId = createRes.result?.objective.id;
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objId, name: 'Renamed', deletedAt: new Date().toISOString(), version: 99 },
+      });
+
+      expect(response.result?.objective.name).toBe('Renamed');
+      expect(response.result?.objective.deletedAt).toBeUndefined();
+      expect(response.result?.objective.version).toBe(createRes.result?.objective.version + 1);
+    });
+
     it('validates status transitions', async () => {
       const createRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Test' },
       });
@@ -313,6 +429,7 @@ describe('OPTHandler', () => {
       // submitted → working is valid
       let response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/update',
         params: { id: objId, status: 'working' },
       });
@@ -321,6 +438,7 @@ describe('OPTHandler', () => {
       // working → submitted is invalid
       response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/update',
         params: { id: objId, status: 'submitted' },
       });
@@ -330,6 +448,7 @@ describe('OPTHandler', () => {
     it('returns error without id', async () => {
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/update',
         params: { name: 'Test' },
       });
@@ -340,6 +459,7 @@ describe('OPTHandler', () => {
     it('returns error for non-existent objective', async () => {
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/update',
         params: { id: 'non-existent', name: 'Test' },
       });
@@ -348,6 +468,301 @@ describe('OPTHandler', () => {
     });
   });
 
+  // ===========================================================================
+  // objectives/replan
+  // ===========================================================================
+
+  describe('objectives/replan', () => {
+    async function createObjectiveWithPlans(planCount: number) {
+      const objRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/create',
+        params: { name: 'Objective' },
+      });
+      const objId = objRes.result?.objective.id;
+      const planIds: string[] = [];
+      for (let i = 0; i < planCount; i++) {
+        const planRes = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'plans/create',
+          params: { objectiveId: objId, name: `Plan ${i}` },
+        });
+        planIds.push(planRes.result?.plan.id);
+      }
+      return { objId, planIds };
+    }
+
+    it('moves a working objective back to planning and blocks working plans', async () => {
+      const { objId, planIds } = await createObjectiveWithPlans(2);
+      await store.updateObjective(objId, { status: 'working' });
+      await store.updatePlan(planIds[0], { status: 'working' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        method: 'objectives/replan',
+        id: '1',
+        params: { id: objId, reason: 'Vendor fell through' },
+      });
+
+      const objective = response.result?.objective;
+      expect(objective.status).toBe('planning');
+      expect(objective.metadata['opt/v1/replanReason']).toBe('Vendor fell through');
+      expect(objective.metadata['opt/v1/replannedAt']).toBeDefined();
+      expect(objective.plans[0].status).toBe('blocked');
+      expect(objective.plans[0].metadata['opt/v1/replanReason']).toBe('Vendor fell through');
+      // Pending plans have not started and are left alone
+      expect(objective.plans[1].status).toBe('pending');
+      expect(response.result?.unchangedPlanIds).toEqual([planIds[1]]);
+    });
+
+    it('keeps paused plans and the objective as they are when tasks change', async () => {
+      const { objId } = await createObjectiveWithPlans(0);
+      const planRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: { objectiveId: objId, name: 'Plan', tasks: [{ name: 'A' }, { name: 'B' }] },
+      });
+      const planId = planRes.result?.plan.id;
+      const [taskA, taskB] = planRes.result?.plan.tasks;
+      await store.updateObjective(objId, { status: 'working' });
+      await store.updatePlan(planId, { status: 'working' });
+      await handler.handle({ jsonrpc: '2.0', id: 1, method: 'objectives/replan', params: { id: objId } });
+
+      const taskRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: taskB.id, status: 'working' },
+      });
+
+      expect(taskRes.result?.propagated).toEqual([]);
+      expect((await store.getPlan(planId))?.status).toBe('blocked');
+      expect((await store.getObjective(objId))?.status).toBe('planning');
+
+      // Resuming the plan lets propagation move it again
+      const resumed = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/update',
+        params: { id: planId, status: 'working' },
+      });
+      expect(resumed.result?.plan.metadata).not.toHaveProperty('opt/v1/paused');
+      expect(resumed.result?.plan.metadata['opt/v1/replannedAt']).toBeDefined();
+
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: taskA.id, status: 'input-required' },
+      });
+      expect((await store.getPlan(planId))?.status).toBe('blocked');
+      expect((await store.getObjective(objId))?.status).toBe('planning');
+    });
+
+    it('reports failed plans it leaves as they were', async () => {
+      const { objId, planIds } = await createObjectiveWithPlans(2);
+      await store.updateObjective(objId, { status: 'working' });
+      await store.updatePlan(planIds[0], { status: 'failed' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: objId, planStatus: 'skipped' },
+      });
+
+      expect(response.result?.objective.plans.map((p: Plan) => p.status)).toEqual(['failed', 'skipped']);
+      expect(response.result?.unchangedPlanIds).toEqual([planIds[0]]);
+    });
+
+    it('skips unfinished plans when planStatus is skipped', async () => {
+      const { objId, planIds } = await createObjectiveWithPlans(3);
+      await store.updateObjective(objId, { status: 'working' });
+      await store.updatePlan(planIds[0], { status: 'working' });
+      await store.updatePlan(planIds[2], { status: 'completed' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: objId, planStatus: 'skipped' },
+      });
+
+      const plans = response.result?.objective.plans;
+      expect(plans[0].status).toBe('skipped');
+      expect(plans[1].status).toBe('skipped');
+      expect(plans[2].status).toBe('completed');
+    });
+
+    it('rejects replanning a completed objective without touching plans', async () => {
+      const { objId, planIds } = await createObjectiveWithPlans(1);
+      await store.updatePlan(planIds[0], { status: 'working' });
+      await store.updateObjective(objId, { status: 'completed' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: objId },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect((await store.getPlan(planIds[0]))?.status).toBe('working');
+    });
+
+    it('returns error for invalid planStatus', async () => {
+      const { objId } = await createObjectiveWithPlans(0);
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: objId, planStatus: 'failed' },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    });
+
+    it('returns error for non-existent objective', async () => {
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: 'non-existent' },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+    });
+  });
+
+  // ===========================================================================
+  // objectives/delete, objectives/restore
+  // ===========================================================================
+
+  describe('objectives/delete', () => {
+    let objId: string;
+    let planId: string;
+
+    beforeEach(async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: objective.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      objId = objective.id;
+      planId = plan.id;
+    });
+
+    function deleteObjective(params: unknown) {
+      return handler.handle({ jsonrpc: '2.0', id: 1, method: 'objectives/delete', params });
+    }
+
+    it('hard-deletes the objective with its plans and tasks by default', async () => {
+      const response = await deleteObjective({ id: objId });
+
+      expect(response.result).toEqual({ id: objId, mode: 'hard' });
+      expect(store.getCounts()).toEqual({ objectives: 0, plans: 0, tasks: 0 });
+    });
+
+    it('soft-deletes into a tombstone hidden from objectives/list', async () => {
+      const response = await deleteObjective({ id: objId, mode: 'soft' });
+
+      expect(response.result?.objective.deletedAt).toBeDefined();
+      expect(store.getCounts()).toEqual({ objectives: 1, plans: 1, tasks: 1 });
+
+      const list = await handler.handle({ jsonrpc: '2.0', id: 1, method: 'objectives/list', params: {} });
+      expect(list.result?.objectives).toEqual([]);
+      const all = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/list',
+        params: { includeDeleted: true },
+      });
+      expect(all.result?.objectives.map((o: { id: string }) => o.id)).toEqual([objId]);
+    });
+
+    it('keeps the first deletedAt when soft-deleting twice', async () => {
+      const first = await deleteObjective({ id: objId, mode: 'soft' });
+      const second = await deleteObjective({ id: objId, mode: 'soft' });
+
+      expect(second.result?.objective.deletedAt).toBe(first.result?.objective.deletedAt);
+    });
+
+    it('rejects an unknown mode', async () => {
+      const response = await deleteObjective({ id: objId, mode: 'archive' });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(store.getCounts().objectives).toBe(1);
+    });
+
+    it('returns NOT_FOUND for a missing objective', async () => {
+      const response = await deleteObjective({ id: 'non-existent' });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+    });
+
+    it('refuses new plans on a soft-deleted objective', async () => {
+      await deleteObjective({ id: objId, mode: 'soft' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: { objectiveId: objId, name: 'Late' },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect((await store.getPlansForObjective(objId)).map(p => p.id)).toEqual([planId]);
+    });
+
+    it('returns NOT_FOUND when updating a soft-deleted objective', async () => {
+      await deleteObjective({ id: objId, mode: 'soft' });
+
+      for (const params of [{ id: objId, name: 'Renamed' }, { id: objId, status: 'working' }]) {
+        const response = await handler.handle({ jsonrpc: '2.0', id: 1, method: 'objectives/update', params });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      }
+      const objective = await store.getObjective(objId);
+      expect(objective).toMatchObject({ name: 'Objective', status: 'submitted' });
+    });
+  });
+
+  describe('objectives/restore', () => {
+    it('clears deletedAt', async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/delete',
+        params: { id: objective.id, mode: 'soft' },
+      });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/restore',
+        params: { id: objective.id },
+      });
+
+      expect(response.result?.objective.deletedAt).toBeUndefined();
+      expect((await store.listObjectives({})).totalSize).toBe(1);
+    });
+
+    it('rejects objectives that are not deleted', async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/restore',
+        params: { id: objective.id },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+    });
+  });
+
   // ===========================================================================
   // plans/create
   // ===========================================================================
@@ -356,6 +771,7 @@ describe('OPTHandler', () => {
     it('creates a plan', async () => {
       const objRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Objective' },
       });
@@ -379,6 +795,7 @@ describe('OPTHandler', () => {
     it('creates plan with tasks', async () => {
       const objRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Objective' },
       });
@@ -386,6 +803,7 @@ describe('OPTHandler', () => {
 
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: {
           objectiveId: objId,
@@ -400,9 +818,60 @@ describe('OPTHandler', () => {
       expect(response.result?.plan.tasks).toHaveLength(2);
     });
 
+    it('rejects invalid dependencies with the offending edges', async () => {
+      const objRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/create',
+        params: { name: 'Objective' },
+      });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: {
+          objectiveId: objRes.result?.objective.id,
+          name: 'Plan',
+          tasks: [
+            { name: 'Task 0', dependencies: ['task-1'] },
+            { name: 'Task 1', dependencies: ['task-0', 'task-5'] },
+          ],
+          dependencies: ['plan-missing'],
+        },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      const issues = (response.error?.data as { issues: unknown[] }).issues;
+      expect(issues).toContainEqual({ kind: 'plan', from: '(new plan)', to: 'plan-missing', reason: 'dangling' });
+      expect(issues).toContainEqual({ kind: 'task', from: 'task-1', to: 'task-5', reason: 'dangling' });
+      expect(issues).toContainEqual({ kind: 'task', from: 'task-0', to: 'task-1', reason: 'cycle' });
+      expect(issues).toContainEqual({ kind: 'task', from: 'task-1', to: 'task-0', reason: 'cycle' });
+      expect(store.getCounts().plans).toBe(0);
+    });
+
+    it('rejects dependencies on plans in other objectives', async () => {
+      const other = await store.createObjective({ name: 'Other' });
+      const otherPlan = await store.createPlan({ objectiveId: other.id, name: 'Other plan' });
+      const objective = await store.createObjective({ name: 'Objective' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: { objectiveId: objective.id, name: 'Plan', dependencies: [otherPlan.id] },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(response.error?.data).toEqual({
+        issues: [{ kind: 'plan', from: '(new plan)', to: otherPlan.id, reason: 'cross-objective' }],
+      });
+    });
+
     it('returns error for non-existent objective', async () => {
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: {
           objectiveId: 'non-existent',
@@ -416,6 +885,7 @@ describe('OPTHandler', () => {
     it('returns error without objectiveId', async () => {
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: { name: 'Plan' },
       });
@@ -426,18 +896,43 @@ describe('OPTHandler', () => {
     it('returns error without name', async () => {
       const objRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Objective' },
       });
 
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: { objectiveId: objRes.result?.objective.id },
       });
 
       expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
     });
+
+    it('rejects malformed tasks and dependencies', async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      const cases: Array<[unknown, string]> = [
+        [{ tasks: [{ name: 42 }] }, 'Missing required parameter: tasks[0].name'],
+        [{ tasks: 'A' }, 'tasks must be an array'],
+        [{ tasks: [{ name: 'A', dependencies: [0] }] }, 'tasks[0].dependencies must be an array of strings'],
+        [{ dependencies: 'plan' }, 'dependencies must be an array of strings'],
+      ];
+
+      for (const [params, message] of cases) {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'plans/create',
+          params: { objectiveId: objective.id, name: 'Plan', ...(params as object) },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+        expect(response.error?.message).toBe(message);
+      }
+      expect(store.getCounts().plans).toBe(0);
+    });
   });
 
   // ===========================================================================
@@ -448,11 +943,13 @@ describe('OPTHandler', () => {
     it('gets a plan', async () => {
       const objRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Objective' },
       });
       const planRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: {
           objectiveId: objRes.result?.objective.id,
@@ -475,6 +972,7 @@ describe('OPTHandler', () => {
     it('returns error for non-existent plan', async () => {
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/get',
         params: { id: 'non-existent' },
       });
@@ -485,11 +983,13 @@ describe('OPTHandler', () => {
     it('excludes tasks when includeTasks is false', async () => {
       const objRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Objective' },
       });
       const planRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: {
           objectiveId: objRes.result?.objective.id,
@@ -500,6 +1000,7 @@ describe('OPTHandler', () => {
 
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/get',
         params: { id: planRes.result?.plan.id, includeTasks: false },
       });
@@ -508,6 +1009,76 @@ describe('OPTHandler', () => {
     });
   });
 
+  // ===========================================================================
+  // plans/list
+  // ===========================================================================
+
+  describe('plans/list', () => {
+    let blocked: string;
+
+    beforeEach(async () => {
+      for (const name of ['First', 'Second']) {
+        const objective = await store.createObjective({ name });
+        const research = await store.createPlan({ objectiveId: objective.id, name: 'Research' });
+        const writing = await store.createPlan({
+          objectiveId: objective.id,
+          name: 'Writing',
+          dependencies: [research.id],
+        });
+        if (name === 'First') {
+          await store.updatePlan(writing.id, { status: 'blocked' });
+          blocked = writing.id;
+        }
+      }
+    });
+
+    function listPlans(params: unknown) {
+      return handler.handle({ jsonrpc: '2.0', id: 1, method: 'plans/list', params });
+    }
+
+    it('lists blocked plans across objectives', async () => {
+      const response = await listPlans({ status: ['blocked'], hasUnmetDependencies: true });
+
+      expect(response.result?.plans.map((p: { id: string }) => p.id)).toEqual([blocked]);
+      expect(response.result?.totalSize).toBe(1);
+    });
+
+    it('paginates with page tokens', async () => {
+      const first = await listPlans({ pageSize: 3 });
+      const second = await listPlans({ pageSize: 3, pageToken: first.result?.nextPageToken });
+
+      expect(first.result?.plans).toHaveLength(3);
+      expect(second.result?.plans).toHaveLength(1);
+      expect(second.result?.nextPageToken).toBeUndefined();
+    });
+
+    it('rejects unknown statuses', async () => {
+      const response = await listPlans({ status: ['stuck'] });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(response.error?.message).toBe('Invalid status: stuck');
+    });
+
+    it('accepts a single status', async () => {
+      const response = await listPlans({ status: 'blocked' });
+
+      expect(response.result?.plans.map((p: { id: string }) => p.id)).toEqual([blocked]);
+    });
+
+    it('rejects a status that is neither a string nor an array', async () => {
+      const response = await listPlans({ status: 42 });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    });
+
+    it('rejects invalid dates', async () => {
+      const response = await listPlans({ updatedAfter: 'yesterday' });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(response.error?.message).toBe('Invalid updatedAfter: yesterday');
+    });
+  });
+
   // ===========================================================================
   // plans/update
   // ===========================================================================
@@ -516,11 +1087,13 @@ describe('OPTHandler', () => {
     it('updates a plan', async () => {
       const objRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Objective' },
       });
       const planRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: {
           objectiveId: objRes.result?.objective.id,
@@ -539,14 +1112,43 @@ describe('OPTHandler', () => {
       expect(response.result?.plan.name).toBe('New Name');
     });
 
+    it('ignores deletedAt and version from the client', async () => {
+      const objRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/create',
+        params: { name: 'Objective' },
+      });
+      const planRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: { objectiveId: objRes.result?.objective.id, name: 'Plan' },
+      });
+      const planId = planRes.result?.plan.id;
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/update',
+        params: { id: planId, name: 'Renamed', deletedAt: new Date().toISOString(), version: 99 },
+      });
+
+      expect(response.result?.plan.name).toBe('Renamed');
+      expect(response.result?.plan.deletedAt).toBeUndefined();
+      expect(response.result?.plan.version).toBe(planRes.result?.plan.version + 1);
+    });
+
     it('validates status transitions', async () => {
       const objRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'objectives/create',
         params: { name: 'Objective' },
       });
       const planRes = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/create',
         params: {
           objectiveId: objRes.result?.objective.id,
@@ -558,6 +1160,7 @@ describe('OPTHandler', () => {
       // pending → working is valid
       let response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/update',
         params: { id: planId, status: 'working' },
       });
@@ -566,15 +1169,37 @@ describe('OPTHandler', () => {
       // working → pending is invalid
       response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/update',
         params: { id: planId, status: 'pending' },
       });
       expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
     });
 
+    it('rejects dependency updates that create a cycle', async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      const first = await store.createPlan({ objectiveId: objective.id, name: 'First' });
+      const second = await store.createPlan({
+        objectiveId: objective.id,
+        name: 'Second',
+        dependencies: [first.id],
+      });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/update',
+        params: { id: first.id, dependencies: [second.id] },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect((await store.getPlan(first.id))?.dependencies).toEqual([]);
+    });
+
     it('returns error for non-existent plan', async () => {
       const response = await handler.handle({
         jsonrpc: '2.0',
+        id: 1,
         method: 'plans/update',
         params: { id: 'non-existent', name: 'Test' },
       });
@@ -582,10 +1207,1278 @@ describe('OPTHandler', () => {
       expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
     });
   });
-});
 
-// =============================================================================
-// State Transition Tests
+  // ===========================================================================
+  // plans/addTasks
+  // ===========================================================================
+
+  describe('plans/addTasks', () => {
+    async function createPlan(tasks: Array<{ name: string }> = []) {
+      const objRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/create',
+        params: { name: 'Objective' },
+      });
+      const planRes = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: {
+          objectiveId: objRes.result?.objective.id,
+          name: 'Plan',
+          tasks,
+        },
+      });
+      return planRes.result?.plan;
+    }
+
+    it('adds tasks to an existing plan', async () => {
+      const plan = await createPlan([{ name: 'Task 0' }]);
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        method: 'plans/addTasks',
+        id: '1',
+        params: {
+          planId: plan.id,
+          tasks: [{ name: 'Task 1', dependencies: [plan.tasks[0].id] }],
+        },
+      });
+
+      expect(response.result?.tasks).toHaveLength(1);
+      expect(response.result?.tasks[0].dependencies).toEqual([plan.tasks[0].id]);
+      expect(response.result?.plan.tasks).toHaveLength(2);
+    });
+
+    it('inserts at a position', async () => {
+      const plan = await createPlan([{ name: 'First' }, { name: 'Last' }]);
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: plan.id, tasks: [{ name: 'Middle' }], position: 1 },
+      });
+
+      expect(response.result?.plan.tasks.map((t: { name: string }) => t.name))
+        .toEqual(['First', 'Middle', 'Last']);
+    });
+
+    it('rejects dependencies on unknown tasks', async () => {
+      const plan = await createPlan([{ name: 'Task' }]);
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: plan.id, tasks: [{ name: 'New', dependencies: ['task-missing'] }] },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(response.error?.data).toEqual({
+        issues: [{ kind: 'task', from: 'task-0', to: 'task-missing', reason: 'dangling' }],
+      });
+    });
+
+    it('returns error for out-of-range position', async () => {
+      const plan = await createPlan([{ name: 'Task' }]);
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: plan.id, tasks: [{ name: 'New' }], position: 5 },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    });
+
+    it('returns error without tasks', async () => {
+      const plan = await createPlan();
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: plan.id, tasks: [] },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    });
+
+    it('returns error for a completed plan', async () => {
+      const plan = await createPlan();
+      await store.updatePlan(plan.id, { status: 'completed' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: plan.id, tasks: [{ name: 'Late' }] },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+    });
+
+    it('returns error for non-existent plan', async () => {
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: 'non-existent', tasks: [{ name: 'Task' }] },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+    });
+  });
+
+  // ===========================================================================
+  // plans/delete
+  // ===========================================================================
+
+  describe('plans/delete', () => {
+    let objId: string;
+    let first: string;
+    let second: string;
+
+    beforeEach(async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      objId = objective.id;
+      first = (await store.createPlan({ objectiveId: objId, name: 'First', tasks: [{ name: 'A' }] })).id;
+      second = (await store.createPlan({ objectiveId: objId, name: 'Second', dependencies: [first] })).id;
+    });
+
+    function deletePlan(params: unknown) {
+      return handler.handle({ jsonrpc: '2.0', id: 1, method: 'plans/delete', params });
+    }
+
+    it('hard-deletes a plan and its tasks', async () => {
+      const response = await deletePlan({ id: second });
+
+      expect(response.result).toEqual({ id: second, mode: 'hard' });
+      expect(store.getCounts()).toEqual({ objectives: 1, plans: 1, tasks: 1 });
+    });
+
+    it('refuses to delete a plan other plans depend on', async () => {
+      const response = await deletePlan({ id: first });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect(response.error?.data).toEqual({ dependents: [second] });
+      expect(await store.getPlan(first)).not.toBeNull();
+    });
+
+    it('deletes a depended-on plan with force, dropping the dependencies', async () => {
+      const response = await deletePlan({ id: first, force: true });
+
+      expect(response.result?.mode).toBe('hard');
+      expect(await store.getPlan(first)).toBeNull();
+      expect((await store.getPlan(second))?.dependencies).toEqual([]);
+    });
+
+    it('keeps the dependencies when soft-deleting a depended-on plan with force', async () => {
+      const response = await deletePlan({ id: first, mode: 'soft', force: true });
+
+      expect(response.result?.plan.deletedAt).toBeDefined();
+      expect((await store.getPlan(second))?.dependencies).toEqual([first]);
+    });
+
+    it('soft-deletes a plan, hiding it from objectives/get unless includeDeleted', async () => {
+      const response = await deletePlan({ id: second, mode: 'soft' });
+      expect(response.result?.plan.deletedAt).toBeDefined();
+
+      const get = (includeDeleted?: boolean) => handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/get',
+        params: { id: objId, includeDeleted },
+      });
+      expect((await get()).result?.objective.plans.map((p: { id: string }) => p.id)).toEqual([first]);
+      expect((await get(true)).result?.objective.plans).toHaveLength(2);
+    });
+
+    it('ignores soft-deleted dependents', async () => {
+      await deletePlan({ id: second, mode: 'soft' });
+
+      const response = await deletePlan({ id: first });
+
+      expect(response.error).toBeUndefined();
+    });
+
+    it('refuses new tasks on a soft-deleted plan', async () => {
+      await deletePlan({ id: second, mode: 'soft' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: second, tasks: [{ name: 'Late' }] },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+    });
+
+    it('returns NOT_FOUND when updating a soft-deleted plan', async () => {
+      await deletePlan({ id: second, mode: 'soft' });
+
+      for (const params of [{ id: second, name: 'Renamed' }, { id: second, status: 'working' }]) {
+        const response = await handler.handle({ jsonrpc: '2.0', id: 1, method: 'plans/update', params });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      }
+      const plan = await store.getPlan(second);
+      expect(plan).toMatchObject({ name: 'Second', status: 'pending' });
+    });
+
+    it('returns NOT_FOUND for a missing plan', async () => {
+      const response = await deletePlan({ id: 'non-existent' });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+    });
+  });
+
+  // ===========================================================================
+  // planTasks/*
+  // ===========================================================================
+
+  describe('planTasks', () => {
+    let taskId: string;
+
+    beforeEach(async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'Task' }],
+      });
+      taskId = plan.tasks![0].id;
+    });
+
+    describe('planTasks/get', () => {
+      it('gets a task', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          method: 'planTasks/get',
+          id: '1',
+          params: { id: taskId },
+        });
+
+        expect(response.result?.task.id).toBe(taskId);
+        expect(response.result?.task.name).toBe('Task');
+      });
+
+      it('returns error for non-existent task', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/get',
+          params: { id: 'non-existent' },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      });
+
+      it('returns error without id', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/get',
+          params: {},
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      });
+    });
+
+    describe('planTasks/update', () => {
+      it('updates task status', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: taskId, status: 'completed' },
+        });
+
+        expect(response.result?.task.status).toBe('completed');
+      });
+
+      it('rejects unknown statuses', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: taskId, status: 'done' },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+        expect(response.error?.message).toBe('Invalid status: done');
+        expect((await store.getPlanTask(taskId))?.status).toBe('pending');
+      });
+
+      it('rejects invalid status transitions', async () => {
+        await store.updatePlanTask(taskId, { status: 'completed' });
+
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: taskId, status: 'working' },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+        expect(response.error?.message).toBe('Invalid status transition: completed → working');
+      });
+
+      it('reports propagated parent transitions', async () => {
+        const task = await store.getPlanTask(taskId);
+        await store.updateObjective(task!.objectiveId, { status: 'working' });
+        await store.updatePlan(task!.planId, { status: 'working' });
+
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: taskId, status: 'completed' },
+        });
+
+        expect(response.result?.propagated).toEqual([
+          { entity: 'plan', id: task!.planId, from: 'working', to: 'completed' },
+          { entity: 'objective', id: task!.objectiveId, from: 'working', to: 'completed' },
+        ]);
+      });
+
+      it('does not propagate when disabled', async () => {
+        handler = new OPTHandler(store, { propagation: false });
+        const task = await store.getPlanTask(taskId);
+        await store.updatePlan(task!.planId, { status: 'working' });
+
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: taskId, status: 'completed' },
+        });
+
+        expect(response.result?.propagated).toBeUndefined();
+        expect((await store.getPlan(task!.planId))?.status).toBe('working');
+      });
+
+      it('ignores structural fields', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: taskId, name: 'Renamed', taskIndex: 7, a2aTaskId: 'sneaky' },
+        });
+
+        expect(response.result?.task.name).toBe('Renamed');
+        expect(response.result?.task.taskIndex).toBe(0);
+        expect(response.result?.task.a2aTaskId).toBeUndefined();
+      });
+
+      it('returns error for non-existent task', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: 'non-existent', status: 'completed' },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      });
+    });
+
+    describe('planTasks/link', () => {
+      it('links an A2A task', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/link',
+          params: { id: taskId, a2aTaskId: 'a2a-123' },
+        });
+
+        expect(response.result?.task.a2aTaskId).toBe('a2a-123');
+        expect((await store.getPlanTask(taskId))?.a2aTaskId).toBe('a2a-123');
+      });
+
+      it('allows re-linking the same A2A task', async () => {
+        await store.linkA2ATask(taskId, 'a2a-123');
+
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/link',
+          params: { id: taskId, a2aTaskId: 'a2a-123' },
+        });
+
+        expect(response.result?.task.a2aTaskId).toBe('a2a-123');
+      });
+
+      it('returns error when already linked to another A2A task', async () => {
+        await store.linkA2ATask(taskId, 'a2a-123');
+
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/link',
+          params: { id: taskId, a2aTaskId: 'a2a-456' },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      });
+
+      it('returns error without a2aTaskId', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/link',
+          params: { id: taskId },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      });
+
+      it('returns error for non-existent task', async () => {
+        const response = await handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/link',
+          params: { id: 'non-existent', a2aTaskId: 'a2a-123' },
+        });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      });
+    });
+  });
+
+  // ===========================================================================
+  // Limits
+  // ===========================================================================
+
+  describe('limits', () => {
+    let objectiveId: string;
+
+    beforeEach(async () => {
+      handler = new OPTHandler(store, {
+        params: { maxPlansPerObjective: 2, maxTasksPerPlan: 3 },
+      });
+      objectiveId = (await store.createObjective({ name: 'Objective' })).id;
+    });
+
+    it('exposes the enforced params', () => {
+      expect(handler.getExtensionParams()).toEqual({ maxPlansPerObjective: 2, maxTasksPerPlan: 3 });
+    });
+
+    it('rejects plans beyond maxPlansPerObjective', async () => {
+      await store.createPlan({ objectiveId, name: 'Plan 1' });
+      await store.createPlan({ objectiveId, name: 'Plan 2' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: { objectiveId, name: 'Plan 3' },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.LIMIT_EXCEEDED);
+      expect(response.error?.data).toEqual({ limit: 'maxPlansPerObjective', max: 2, count: 3 });
+    });
+
+    it('rejects plans created with more than maxTasksPerPlan tasks', async () => {
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: {
+          objectiveId,
+          name: 'Plan',
+          tasks: [{ name: 'A' }, { name: 'B' }, { name: 'C' }, { name: 'D' }],
+        },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.LIMIT_EXCEEDED);
+      expect(store.getCounts().plans).toBe(0);
+    });
+
+    it('rejects adding tasks beyond maxTasksPerPlan', async () => {
+      const plan = await store.createPlan({
+        objectiveId,
+        name: 'Plan',
+        tasks: [{ name: 'A' }, { name: 'B' }],
+      });
+
+      let response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: plan.id, tasks: [{ name: 'C' }, { name: 'D' }] },
+      });
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.LIMIT_EXCEEDED);
+
+      response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/addTasks',
+        params: { planId: plan.id, tasks: [{ name: 'C' }] },
+      });
+      expect(response.result?.plan.tasks).toHaveLength(3);
+    });
+
+    it('does not enforce limits by default', async () => {
+      handler = new OPTHandler(store);
+      for (let i = 0; i < 3; i++) {
+        await store.createPlan({ objectiveId, name: `Plan ${i}` });
+      }
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: { objectiveId, name: 'Plan 4' },
+      });
+
+      expect(response.result?.plan).toBeDefined();
+    });
+  });
+
+  describe('objectives/createWithPlans', () => {
+    async function createWithPlans(params: unknown) {
+      return handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/createWithPlans',
+        params,
+      });
+    }
+
+    it('creates the objective, plans and tasks', async () => {
+      const response = await createWithPlans({
+        name: 'Blog post',
+        plans: [
+          { ref: 'research', name: 'Research', tasks: [{ name: 'Search' }, { name: 'Summarize', dependencies: ['task-0'] }] },
+          { name: 'Write', dependencies: ['research'], tasks: [{ name: 'Draft' }] },
+        ],
+      });
+
+      const objective = response.result?.objective;
+      expect(objective.name).toBe('Blog post');
+      expect(objective.plans.map((p: any) => p.name)).toEqual(['Research', 'Write']);
+      const [research, write] = objective.plans;
+      expect(write.dependencies).toEqual([research.id]);
+      expect(research.tasks[1].dependencies).toEqual([research.tasks[0].id]);
+      expect(store.getCounts()).toEqual({ objectives: 1, plans: 2, tasks: 3 });
+    });
+
+    it('resolves forward references and plan-N indexes', async () => {
+      const response = await createWithPlans({
+        name: 'Objective',
+        plans: [
+          { name: 'First', dependencies: ['later'] },
+          { ref: 'later', name: 'Second' },
+          { name: 'Third', dependencies: ['plan-0'] },
+        ],
+      });
+
+      const [first, second, third] = response.result?.objective.plans;
+      expect(first.dependencies).toEqual([second.id]);
+      expect(third.dependencies).toEqual([first.id]);
+    });
+
+    it('requires a name for every plan', async () => {
+      const response = await createWithPlans({ name: 'Objective', plans: [{ name: 'A' }, {}] });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(response.error?.message).toBe('Missing required parameter: plans[1].name');
+    });
+
+    it('validates every plan like plans/create before writing anything', async () => {
+      const cases: Array<[unknown, string]> = [
+        [{ name: 'A', tasks: [{ name: 'T' }, {}] }, 'Missing required parameter: plans[0].tasks[1].name'],
+        [{ name: 'A', tasks: [{ name: 'T', dependencies: 'task-0' }] }, 'plans[0].tasks[0].dependencies must be an array of strings'],
+        [{ name: 'A', dependencies: [1] }, 'plans[0].dependencies must be an array of strings'],
+      ];
+
+      for (const [plan, message] of cases) {
+        const response = await createWithPlans({ name: 'Objective', plans: [plan] });
+
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+        expect(response.error?.message).toBe(message);
+      }
+      expect(store.getCounts()).toEqual({ objectives: 0, plans: 0, tasks: 0 });
+    });
+
+    it('rejects duplicate refs', async () => {
+      const response = await createWithPlans({
+        name: 'Objective',
+        plans: [{ ref: 'a', name: 'A' }, { ref: 'a', name: 'B' }],
+      });
+
+      expect(response.error?.message).toBe('Duplicate plan ref: a');
+    });
+
+    it('rejects unknown refs and cycles without writing anything', async () => {
+      const dangling = await createWithPlans({
+        name: 'Objective',
+        plans: [{ name: 'A', dependencies: ['missing'] }],
+      });
+      const cycle = await createWithPlans({
+        name: 'Objective',
+        plans: [
+          { ref: 'a', name: 'A', dependencies: ['b'] },
+          { ref: 'b', name: 'B', dependencies: ['a'] },
+        ],
+      });
+
+      expect(dangling.error?.data).toMatchObject({ issues: [{ to: 'missing', reason: 'dangling' }] });
+      expect(cycle.error?.data).toMatchObject({ issues: [{ reason: 'cycle' }, { reason: 'cycle' }] });
+      expect(store.getCounts()).toEqual({ objectives: 0, plans: 0, tasks: 0 });
+    });
+
+    it('enforces limits', async () => {
+      handler = new OPTHandler(store, { params: { maxPlansPerObjective: 1 } });
+
+      const response = await createWithPlans({ name: 'Objective', plans: [{ name: 'A' }, { name: 'B' }] });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.LIMIT_EXCEEDED);
+      expect(store.getCounts().objectives).toBe(0);
+    });
+
+    it('removes a partly built tree when the store is not atomic', async () => {
+      class FlakyStore extends InMemoryOPTStore {
+        private calls = 0;
+        async createPlan(data: CreatePlanRequest) {
+          if (++this.calls === 2) throw new Error('disk full');
+          return super.createPlan(data);
+        }
+      }
+      const flaky = new FlakyStore();
+      (flaky as { createObjectiveTree?: unknown }).createObjectiveTree = undefined;
+      (flaky as { transaction?: unknown }).transaction = undefined;
+      handler = new OPTHandler(flaky);
+
+      const response = await createWithPlans({ name: 'Objective', plans: [{ name: 'A' }, { name: 'B' }] });
+
+      expect(response.error?.message).toBe('disk full');
+      expect(flaky.getCounts()).toEqual({ objectives: 0, plans: 0, tasks: 0 });
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    let objectiveId: string;
+    let planId: string;
+    let taskId: string;
+
+    beforeEach(async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: objective.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      objectiveId = objective.id;
+      planId = plan.id;
+      taskId = plan.tasks![0].id;
+    });
+
+    it('updates when expectedVersion matches', async () => {
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objectiveId, name: 'Renamed', expectedVersion: 1 },
+      });
+
+      expect(response.result?.objective).toMatchObject({ name: 'Renamed', version: 2 });
+      expect(response.result?.objective).not.toHaveProperty('expectedVersion');
+    });
+
+    it('rejects a stale objective update with the current objective', async () => {
+      await store.updateObjective(objectiveId, { name: 'Changed elsewhere' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objectiveId, status: 'working', expectedVersion: 1 },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.CONFLICT);
+      expect(response.error?.data).toMatchObject({
+        objective: { id: objectiveId, name: 'Changed elsewhere', version: 2 },
+      });
+      expect((await store.getObjective(objectiveId))?.status).toBe('submitted');
+    });
+
+    it('rejects a stale plan update', async () => {
+      await store.updatePlan(planId, { name: 'Changed elsewhere' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/update',
+        params: { id: planId, name: 'Mine', expectedVersion: 1 },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.CONFLICT);
+      expect(response.error?.data).toMatchObject({ plan: { version: 2 } });
+      expect((await store.getPlan(planId))?.name).toBe('Changed elsewhere');
+    });
+
+    it('rejects a stale task update', async () => {
+      await store.updatePlanTask(taskId, { status: 'working' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: taskId, status: 'completed', expectedVersion: 1 },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.CONFLICT);
+      expect(response.error?.data).toMatchObject({ task: { status: 'working' } });
+    });
+
+    it('lets only one of two writers with the same version win', async () => {
+      const update = (name: string) => handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/update',
+        params: { id: planId, name, expectedVersion: 1 },
+      });
+
+      const responses = await Promise.all([update('First'), update('Second')]);
+
+      expect(responses[0].result?.plan.name).toBe('First');
+      expect(responses[1].error?.code).toBe(JSON_RPC_ERRORS.CONFLICT);
+    });
+
+    it('rejects a non-integer expectedVersion', async () => {
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objectiveId, expectedVersion: 'latest' },
+      });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    });
+  });
+
+  describe('transactions', () => {
+    let objectiveId: string;
+
+    beforeEach(async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      await store.updateObjective(objective.id, { status: 'working' });
+      objectiveId = objective.id;
+    });
+
+    it('keeps an objective created while another request rolls back', async () => {
+      class SlowStore extends InMemoryOPTStore {
+        async getPlan(id: string) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          return super.getPlan(id);
+        }
+      }
+      const slow = new SlowStore();
+      objectiveId = (await slow.createObjective({ name: 'Objective' })).id;
+      handler = new OPTHandler(slow);
+
+      const [failed, created] = await Promise.all([
+        handler.handle({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'plans/create',
+          params: { objectiveId, name: 'Plan', dependencies: ['missing'] },
+        }),
+        // Arrives while plans/create is waiting on the store
+        new Promise(resolve => setTimeout(resolve, 1)).then(() => handler.handle({
+          jsonrpc: '2.0',
+          id: 2,
+          method: 'objectives/create',
+          params: { name: 'Concurrent' },
+        })),
+      ]);
+
+      expect(failed.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'objectives/get',
+        params: { id: created.result?.objective.id },
+      });
+      expect(response.result?.objective.name).toBe('Concurrent');
+    });
+
+    it('serializes concurrent status transitions', async () => {
+      const update = (status: string) => handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objectiveId, status },
+      });
+
+      const responses = await Promise.all([update('completed'), update('failed')]);
+
+      expect(responses[0].result).toBeDefined();
+      expect(responses[1].error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect((await store.getObjective(objectiveId))?.status).toBe('completed');
+    });
+
+    it('rolls back a task update when propagation fails', async () => {
+      class FlakyStore extends InMemoryOPTStore {
+        async updatePlan(id: string, updates: Partial<Plan>) {
+          if (updates.status === 'completed') throw new Error('disk full');
+          return super.updatePlan(id, updates);
+        }
+      }
+      const flaky = new FlakyStore();
+      const objective = await flaky.createObjective({ name: 'Objective' });
+      const plan = await flaky.createPlan({ objectiveId: objective.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      await flaky.updatePlan(plan.id, { status: 'working' });
+      handler = new OPTHandler(flaky);
+      const events: string[] = [];
+      handler.onChange(event => events.push(event.type));
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: plan.tasks![0].id, status: 'completed' },
+      });
+
+      expect(response.error?.message).toBe('disk full');
+      expect((await flaky.getPlanTask(plan.tasks![0].id))?.status).toBe('pending');
+      expect(events).toEqual([]);
+    });
+
+    it('rolls back a partly built tree in a store transaction', async () => {
+      class FlakyStore extends InMemoryOPTStore {
+        private calls = 0;
+        async createPlan(data: CreatePlanRequest) {
+          if (++this.calls === 2) throw new Error('disk full');
+          return super.createPlan(data);
+        }
+        async deleteObjective(): Promise<boolean> {
+          throw new Error('compensation should not be needed');
+        }
+      }
+      const flaky = new FlakyStore();
+      (flaky as { createObjectiveTree?: unknown }).createObjectiveTree = undefined;
+      handler = new OPTHandler(flaky);
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/createWithPlans',
+        params: { name: 'Objective', plans: [{ name: 'A' }, { name: 'B' }] },
+      });
+
+      expect(response.error).toBeDefined();
+      expect(flaky.getCounts()).toEqual({ objectives: 0, plans: 0, tasks: 0 });
+    });
+
+    it('works with stores without transactions', async () => {
+      (store as { transaction?: unknown }).transaction = undefined;
+      handler = new OPTHandler(store);
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objectiveId, status: 'completed' },
+      });
+
+      expect(response.result?.objective.status).toBe('completed');
+    });
+  });
+
+  describe('status history', () => {
+    let objectiveId: string;
+    let planId: string;
+
+    beforeEach(async () => {
+      const objective = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: objective.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      objectiveId = objective.id;
+      planId = plan.id;
+    });
+
+    const history = async (method: string, id: string) => {
+      const response = await handler.handle({ jsonrpc: '2.0', id: 1, method, params: { id } });
+      return response.result?.history;
+    };
+
+    it('records objective status changes with the actor and reason', async () => {
+      await handler.handle(
+        {
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'objectives/update',
+          params: { id: objectiveId, status: 'planning', reason: 'Kickoff' },
+        },
+        { actor: 'alice' }
+      );
+
+      const entries = await history('objectives/history', objectiveId);
+
+      expect(entries).toEqual([{
+        entity: 'objective',
+        id: objectiveId,
+        from: 'submitted',
+        to: 'planning',
+        timestamp: expect.any(String),
+        actor: 'alice',
+        reason: 'Kickoff',
+      }]);
+      expect((await store.getObjective(objectiveId))).not.toHaveProperty('reason');
+    });
+
+    it('records plan changes and the changes they propagate', async () => {
+      await handler.handle(
+        { jsonrpc: '2.0', id: 1, method: 'plans/update', params: { id: planId, status: 'working' } },
+        { actor: 'bob' }
+      );
+
+      expect(await history('plans/history', planId)).toMatchObject([
+        { from: 'pending', to: 'working', actor: 'bob' },
+      ]);
+      expect(await history('objectives/history', objectiveId)).toMatchObject([
+        { from: 'submitted', to: 'working', actor: 'bob', reason: `Propagated from plan ${planId}` },
+      ]);
+    });
+
+    it('records task status changes with the actor and reason', async () => {
+      const [task] = await store.getTasksForPlan(planId);
+
+      await handler.handle(
+        {
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'planTasks/update',
+          params: { id: task.id, status: 'working', reason: 'Picked up' },
+        },
+        { actor: 'carol' }
+      );
+
+      expect(await history('planTasks/history', task.id)).toEqual([{
+        entity: 'task',
+        id: task.id,
+        from: 'pending',
+        to: 'working',
+        timestamp: expect.any(String),
+        actor: 'carol',
+        reason: 'Picked up',
+      }]);
+      expect((await store.getPlanTask(task.id))).not.toHaveProperty('reason');
+    });
+
+    it('records changes propagated from tasks', async () => {
+      const [task] = await store.getTasksForPlan(planId);
+
+      await handler.handle({ jsonrpc: '2.0', id: 1, method: 'planTasks/update', params: { id: task.id, status: 'working' } });
+
+      expect(await history('plans/history', planId)).toMatchObject([
+        { from: 'pending', to: 'working', reason: `Propagated from PlanTask ${task.id}` },
+      ]);
+    });
+
+    it('records every step of a replan', async () => {
+      await store.updateObjective(objectiveId, { status: 'working' });
+      await store.updatePlan(planId, { status: 'working' });
+
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: objectiveId, reason: 'Scope changed' },
+      });
+
+      expect(await history('plans/history', planId)).toMatchObject([
+        { from: 'working', to: 'blocked', reason: 'Scope changed' },
+      ]);
+      expect(await history('objectives/history', objectiveId)).toMatchObject([
+        { from: 'working', to: 'blocked', reason: 'Scope changed' },
+        { from: 'blocked', to: 'planning', reason: 'Scope changed' },
+      ]);
+    });
+
+    it('records nothing when the status does not change', async () => {
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objectiveId, metadata: { owner: 'team-x' } },
+      });
+
+      expect(await history('objectives/history', objectiveId)).toEqual([]);
+    });
+
+    it('returns NOT_FOUND for unknown entities', async () => {
+      for (const method of ['objectives/history', 'plans/history', 'planTasks/history']) {
+        const response = await handler.handle({ jsonrpc: '2.0', id: 1, method, params: { id: 'missing' } });
+        expect(response.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      }
+    });
+
+    it('is not offered when the store keeps no history', () => {
+      const plain = Object.assign(new InMemoryOPTStore(), {
+        addStatusHistory: undefined,
+        getStatusHistory: undefined,
+      });
+      handler = new OPTHandler(plain);
+
+      expect(handler.canHandle('objectives/history')).toBe(false);
+      expect(handler.canHandle('plans/history')).toBe(false);
+      expect(handler.canHandle('planTasks/history')).toBe(false);
+    });
+  });
+
+  describe('JSON-RPC envelope', () => {
+    function single(response: JsonRpcResponse | JsonRpcResponse[] | undefined): JsonRpcResponse {
+      if (!response || Array.isArray(response)) throw new Error('Expected a single response');
+      return response;
+    }
+
+    it('rejects requests without jsonrpc 2.0', async () => {
+      const response = single(await handler.handle({ jsonrpc: '1.0', id: 1, method: 'objectives/list' }));
+
+      expect(response.id).toBe(1);
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    });
+
+    it('rejects requests without a method', async () => {
+      const response = single(await handler.handle({ jsonrpc: '2.0', id: 1 }));
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    });
+
+    it('rejects non-object params and invalid ids', async () => {
+      const badParams = single(await handler.handle({ jsonrpc: '2.0', id: 1, method: 'objectives/list', params: 'x' }));
+      const badId = single(await handler.handle({ jsonrpc: '2.0', id: {}, method: 'objectives/list' }));
+
+      expect(badParams.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+      expect(badId.id).toBeNull();
+      expect(badId.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    });
+
+    it('rejects non-object requests', async () => {
+      const response = single(await handler.handle('objectives/list'));
+
+      expect(response.id).toBeNull();
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    });
+  });
+
+  describe('notifications', () => {
+    it('executes notifications without responding', async () => {
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        method: 'objectives/create',
+        params: { name: 'Notified' },
+      });
+
+      expect(response).toBeUndefined();
+      const list = await handler.handle<ListObjectivesResponse>({ jsonrpc: '2.0', id: 1, method: 'objectives/list' });
+      expect(list.result?.objectives[0].name).toBe('Notified');
+    });
+
+    it('does not respond to failed notifications', async () => {
+      const response = await handler.handle({ jsonrpc: '2.0', method: 'unknown/method' });
+
+      expect(response).toBeUndefined();
+    });
+  });
+
+  describe('batch requests', () => {
+    it('returns responses in request order', async () => {
+      const responses = await handler.handle([
+        { jsonrpc: '2.0', id: 'a', method: 'objectives/create', params: { name: 'First' } },
+        { jsonrpc: '2.0', id: 'b', method: 'objectives/create', params: { name: 'Second' } },
+        { jsonrpc: '2.0', id: 'c', method: 'objectives/list' },
+      ]);
+
+      expect(responses?.map(r => r.id)).toEqual(['a', 'b', 'c']);
+      expect(responses?.[2].result).toMatchObject({ totalSize: 2 });
+    });
+
+    it('reports errors per entry', async () => {
+      const responses = await handler.handle([
+        { jsonrpc: '2.0', id: 1, method: 'objectives/create', params: { name: 'Valid' } },
+        { jsonrpc: '2.0', id: 2, method: 'objectives/get', params: { id: 'non-existent' } },
+        { jsonrpc: '2.0', id: 3, method: 'unknown/method' },
+        42,
+      ]);
+
+      expect(responses?.[0].result).toBeDefined();
+      expect(responses?.[1].error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      expect(responses?.[2].error?.code).toBe(JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+      expect(responses?.[3]).toMatchObject({ id: null, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST } });
+    });
+
+    it('omits notifications from the responses', async () => {
+      const responses = await handler.handle([
+        { jsonrpc: '2.0', method: 'objectives/create', params: { name: 'Notified' } },
+        { jsonrpc: '2.0', id: 1, method: 'objectives/list' },
+      ]);
+
+      expect(responses).toHaveLength(1);
+      expect(responses?.[0].result).toMatchObject({ totalSize: 1 });
+    });
+
+    it('returns nothing for a batch of notifications', async () => {
+      const responses = await handler.handle([
+        { jsonrpc: '2.0', method: 'objectives/create', params: { name: 'A' } },
+        { jsonrpc: '2.0', method: 'objectives/create', params: { name: 'B' } },
+      ]);
+
+      expect(responses).toBeUndefined();
+    });
+
+    it('rejects an empty batch', async () => {
+      const response = await handler.handle([]);
+
+      expect(Array.isArray(response)).toBe(false);
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    });
+  });
+
+  describe('objectives/subscribe', () => {
+    async function createObjective(): Promise<string> {
+      const response = await handler.handle<CreateObjectiveResponse>({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/create',
+        params: { name: 'Objective' },
+      });
+      return response.result!.objective.id;
+    }
+
+    it('is only available as a stream', async () => {
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/subscribe',
+        params: { id: 'obj-1' },
+      });
+
+      expect(handler.isStreaming('objectives/subscribe')).toBe(true);
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    });
+
+    it('streams the objective, then its changes', async () => {
+      const objectiveId = await createObjective();
+      const stream = handler.handleStream<SubscribeObjectiveUpdate>({
+        jsonrpc: '2.0',
+        id: 'sub',
+        method: 'objectives/subscribe',
+        params: { id: objectiveId },
+      });
+
+      const first = await stream.next();
+      expect(first.value?.id).toBe('sub');
+      expect(first.value?.result).toMatchObject({ objective: { id: objectiveId } });
+
+      const created = await handler.handle<CreatePlanResponse>({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'plans/create',
+        params: { objectiveId, name: 'Plan', tasks: [{ name: 'Task' }] },
+      });
+      const plan = created.result!.plan;
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: plan.tasks![0].id, status: 'working' },
+      });
+
+      const types: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        const result = (await stream.next()).value?.result;
+        if (result && 'event' in result) types.push(result.event.type);
+      }
+      expect(types).toEqual([
+        'plan.created',
+        'planTask.updated',
+        'planTask.statusChanged',
+        'plan.updated',
+      ]);
+
+      await stream.return(undefined);
+    });
+
+    it('does not stream changes to other objectives', async () => {
+      const objectiveId = await createObjective();
+      const otherId = await createObjective();
+      const stream = handler.handleStream({
+        jsonrpc: '2.0',
+        method: 'objectives/subscribe',
+        params: { id: objectiveId },
+      });
+      await stream.next();
+
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: otherId, name: 'Other' },
+      });
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/update',
+        params: { id: objectiveId, name: 'Mine' },
+      });
+
+      const next = await stream.next();
+      expect(next.value?.result).toMatchObject({ event: { objective: { name: 'Mine' } } });
+      await stream.return(undefined);
+    });
+
+    it('ends when the signal aborts', async () => {
+      const objectiveId = await createObjective();
+      const controller = new AbortController();
+      const stream = handler.handleStream(
+        { jsonrpc: '2.0', method: 'objectives/subscribe', params: { id: objectiveId } },
+        controller.signal
+      );
+      await stream.next();
+
+      const pending = stream.next();
+      controller.abort();
+
+      expect((await pending).done).toBe(true);
+    });
+
+    it('streams an error for a missing objective', async () => {
+      const stream = handler.handleStream({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/subscribe',
+        params: { id: 'non-existent' },
+      });
+
+      const first = await stream.next();
+      expect(first.value?.error?.code).toBe(JSON_RPC_ERRORS.NOT_FOUND);
+      expect((await stream.next()).done).toBe(true);
+    });
+
+    it('streams a single response for non-streaming methods', async () => {
+      const responses = [];
+      for await (const response of handler.handleStream({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/create',
+        params: { name: 'Objective' },
+      })) {
+        responses.push(response);
+      }
+
+      expect(responses).toHaveLength(1);
+      expect(responses[0].result).toMatchObject({ objective: { name: 'Objective' } });
+    });
+  });
+});
+
+// =============================================================================
+// State Transition Tests
 // =============================================================================
 
 describe('State Transitions', () => {
@@ -653,4 +2546,232 @@ describe('State Transitions', () => {
       expect(isValidPlanTransition('failed', 'working')).toBe(true);
     });
   });
+
+  describe('isValidPlanTaskTransition', () => {
+    it('allows same status', () => {
+      expect(isValidPlanTaskTransition('working', 'working')).toBe(true);
+    });
+
+    it('allows moving between working and waiting states', () => {
+      expect(isValidPlanTaskTransition('working', 'input-required')).toBe(true);
+      expect(isValidPlanTaskTransition('input-required', 'working')).toBe(true);
+      expect(isValidPlanTaskTransition('auth-required', 'blocked')).toBe(true);
+    });
+
+    it('blocks leaving completed', () => {
+      expect(isValidPlanTaskTransition('completed', 'working')).toBe(false);
+      expect(isValidPlanTaskTransition('completed', 'pending')).toBe(false);
+    });
+
+    it('blocks going back to pending once started', () => {
+      expect(isValidPlanTaskTransition('working', 'pending')).toBe(false);
+    });
+
+    it('allows retry from failed', () => {
+      expect(isValidPlanTaskTransition('failed', 'pending')).toBe(true);
+      expect(isValidPlanTaskTransition('failed', 'working')).toBe(true);
+    });
+  });
+
+  describe('transition policies', () => {
+    let store: InMemoryOPTStore;
+
+    beforeEach(() => {
+      store = new InMemoryOPTStore();
+    });
+
+    function updateObjective(handler: OPTHandler, params: unknown) {
+      return handler.handle({ jsonrpc: '2.0', id: 1, method: 'objectives/update', params });
+    }
+
+    it('reports the allowed next states when refusing a transition', async () => {
+      const handler = new OPTHandler(store);
+      const objective = await store.createObjective({ name: 'Objective' });
+
+      const response = await updateObjective(handler, { id: objective.id, status: 'completed' });
+
+      expect(response.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect(response.error?.data).toEqual({
+        from: 'submitted',
+        to: 'completed',
+        allowed: ['planning', 'working', 'canceled'],
+      });
+    });
+
+    it('uses a custom table', async () => {
+      const handler = new OPTHandler(store, {
+        transitions: {
+          objective: { transitions: { ...VALID_OBJECTIVE_TRANSITIONS, completed: ['working'], failed: ['planning'] } },
+        },
+      });
+      const reopened = await store.createObjective({ name: 'Reopened' });
+      await store.updateObjective(reopened.id, { status: 'completed' });
+      const failed = await store.createObjective({ name: 'Failed' });
+      await store.updateObjective(failed.id, { status: 'failed' });
+
+      const reopen = await updateObjective(handler, { id: reopened.id, status: 'working' });
+      const resubmit = await updateObjective(handler, { id: failed.id, status: 'submitted' });
+
+      expect(reopen.result?.objective.status).toBe('working');
+      expect(resubmit.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect((resubmit.error?.data as { allowed: string[] }).allowed).toEqual(['planning']);
+    });
+
+    it('consults the guard with the entity and the pending update', async () => {
+      const seen: unknown[] = [];
+      const handler = new OPTHandler(store, {
+        transitions: {
+          objective: {
+            transitions: VALID_OBJECTIVE_TRANSITIONS,
+            guard: (objective, update) => {
+              seen.push({ name: objective.name, update });
+              return objective.metadata?.approved === true;
+            },
+          },
+        },
+      });
+      const pending = await store.createObjective({ name: 'Pending' });
+      const approved = await store.createObjective({ name: 'Approved', metadata: { approved: true } });
+
+      const refused = await updateObjective(handler, { id: pending.id, status: 'working' });
+      const allowed = await updateObjective(handler, { id: approved.id, status: 'working', name: 'Go' });
+      await updateObjective(handler, { id: approved.id, name: 'Renamed' });
+
+      expect(refused.error?.code).toBe(JSON_RPC_ERRORS.INVALID_STATE);
+      expect(allowed.result?.objective.status).toBe('working');
+      expect(seen).toEqual([
+        { name: 'Pending', update: { status: 'working' } },
+        { name: 'Approved', update: { status: 'working', name: 'Go' } },
+      ]);
+    });
+
+    it('leaves the target the guard refused out of the allowed states', async () => {
+      const handler = new OPTHandler(store, {
+        transitions: {
+          objective: {
+            transitions: VALID_OBJECTIVE_TRANSITIONS,
+            guard: (_objective, update) => update.status !== 'working',
+          },
+        },
+      });
+      const objective = await store.createObjective({ name: 'Objective' });
+
+      const response = await updateObjective(handler, { id: objective.id, status: 'working' });
+
+      expect(response.error?.data).toEqual({ from: 'submitted', to: 'working', allowed: ['planning', 'canceled'] });
+    });
+
+    it('shows the guard of a two-step change the status of the first step', async () => {
+      const seen: string[] = [];
+      const handler = new OPTHandler(store, {
+        transitions: {
+          objective: {
+            transitions: VALID_OBJECTIVE_TRANSITIONS,
+            // Only paused objectives go back to planning
+            guard: (objective, update) => update.status !== 'planning' || objective.status === 'blocked',
+          },
+          plan: {
+            transitions: VALID_PLAN_TRANSITIONS,
+            guard: (plan, update) => {
+              seen.push(`${plan.status} → ${update.status}`);
+              return true;
+            },
+          },
+        },
+      });
+      const objective = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: objective.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      const working = await store.createObjective({ name: 'Working' });
+      await store.updateObjective(working.id, { status: 'working' });
+
+      await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: plan.tasks![0].id, status: 'completed' },
+      });
+      const replan = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: working.id },
+      });
+
+      expect(seen).toEqual(['pending → working', 'working → completed']);
+      expect(replan.result?.objective.status).toBe('planning');
+    });
+
+    it('leaves statuses the guard refused out of the allowed states on replan', async () => {
+      const handler = new OPTHandler(store, {
+        transitions: {
+          objective: {
+            transitions: VALID_OBJECTIVE_TRANSITIONS,
+            guard: (_objective, update) => update.status !== 'blocked',
+          },
+        },
+      });
+      const objective = await store.createObjective({ name: 'Objective' });
+      await store.updateObjective(objective.id, { status: 'working' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'objectives/replan',
+        params: { id: objective.id },
+      });
+
+      expect(response.error?.data).toEqual({
+        from: 'working',
+        to: 'planning',
+        allowed: ['completed', 'failed', 'canceled'],
+      });
+    });
+
+    it('applies to status propagation', async () => {
+      const handler = new OPTHandler(store, {
+        transitions: {
+          plan: { transitions: { ...VALID_PLAN_TRANSITIONS, working: ['blocked', 'failed'] } },
+        },
+      });
+      const objective = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: objective.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      await store.updatePlan(plan.id, { status: 'working' });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: plan.tasks![0].id, status: 'completed' },
+      });
+
+      expect(response.result?.task.status).toBe('completed');
+      expect((await store.getPlan(plan.id))?.status).toBe('working');
+    });
+
+    it('skips parents whose guard throws during propagation', async () => {
+      const handler = new OPTHandler(store, {
+        transitions: {
+          plan: {
+            transitions: VALID_PLAN_TRANSITIONS,
+            guard: () => {
+              throw new OPTError(JSON_RPC_ERRORS.INVALID_STATE, 'nope');
+            },
+          },
+        },
+      });
+      const objective = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: objective.id, name: 'Plan', tasks: [{ name: 'A' }] });
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'planTasks/update',
+        params: { id: plan.tasks![0].id, status: 'working' },
+      });
+
+      expect(response.result?.task.status).toBe('working');
+      expect(response.result?.propagated).toEqual([]);
+      expect((await store.getPlan(plan.id))?.status).toBe('pending');
+    });
+  });
 });
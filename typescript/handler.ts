@@ -2,27 +2,88 @@
  * JSON-RPC method handlers for OPT extension.
  * 
  * Implements the RPC methods defined in the specification:
- * - objectives/create, objectives/get, objectives/list, objectives/update
- * - plans/create, plans/get, plans/update
+ * - objectives/create, objectives/createWithPlans, objectives/get,
+ *   objectives/list, objectives/update, objectives/replan,
+ *   objectives/delete, objectives/restore, objectives/history
+ * - plans/create, plans/get, plans/list, plans/update, plans/addTasks,
+ *   plans/delete, plans/history
+ * - planTasks/get, planTasks/update, planTasks/link, planTasks/history
+ * - objectives/subscribe (streaming)
  */
 
 import {
   OPTStore,
+  Objective,
+  Plan,
+  PlanStatus,
+  PlanTask,
   CreateObjectiveRequest,
   CreateObjectiveResponse,
+  CreateObjectiveWithPlansRequest,
+  CreateObjectiveWithPlansResponse,
   GetObjectiveRequest,
   GetObjectiveResponse,
   ListObjectivesRequest,
   ListObjectivesResponse,
+  ObjectiveSortField,
   UpdateObjectiveRequest,
   UpdateObjectiveResponse,
+  ReplanObjectiveRequest,
+  ReplanObjectiveResponse,
+  DeleteMode,
+  DeleteObjectiveRequest,
+  DeleteObjectiveResponse,
+  RestoreObjectiveRequest,
+  RestoreObjectiveResponse,
+  GetObjectiveHistoryRequest,
+  GetObjectiveHistoryResponse,
+  PlanInput,
   CreatePlanRequest,
   CreatePlanResponse,
   GetPlanRequest,
   GetPlanResponse,
+  ListPlansRequest,
+  ListPlansResponse,
   UpdatePlanRequest,
   UpdatePlanResponse,
+  AddPlanTasksRequest,
+  AddPlanTasksResponse,
+  DeletePlanRequest,
+  DeletePlanResponse,
+  GetPlanHistoryRequest,
+  GetPlanHistoryResponse,
+  GetPlanTaskRequest,
+  GetPlanTaskResponse,
+  UpdatePlanTaskRequest,
+  UpdatePlanTaskResponse,
+  GetPlanTaskHistoryRequest,
+  GetPlanTaskHistoryResponse,
+  LinkPlanTaskRequest,
+  LinkPlanTaskResponse,
+  SubscribeObjectiveRequest,
+  SubscribeObjectiveUpdate,
+  StatusHistoryEntry,
+  StatusTransition,
+  PlanTaskTransition,
+  OPTExtensionParams,
+  OPT_METADATA,
 } from './types.js';
+import { timestamp, resolvePlanDependencies } from './store.js';
+import { ObservableOPTStore, OPTChangeListener } from './events.js';
+import { DEFAULT_PROPAGATION_POLICY, PropagationPolicy, StatusPropagator } from './propagation.js';
+import {
+  TransitionPolicies,
+  TransitionPolicy,
+  isAllowedTransition,
+  resolveTransitionPolicies,
+  transitionPath,
+} from './transitions.js';
+import {
+  DependencyIssue,
+  validateNewPlanDependencies,
+  validatePlanDependencies,
+  validateTaskDependencies,
+} from './validation.js';
 
 // =============================================================================
 // JSON-RPC Types
@@ -37,7 +98,7 @@ export interface JsonRpcRequest<T = unknown> {
 
 export interface JsonRpcResponse<T = unknown> {
   jsonrpc: '2.0';
-  id?: string | number;
+  id?: string | number | null;
   result?: T;
   error?: JsonRpcError;
 }
@@ -58,16 +119,56 @@ export const JSON_RPC_ERRORS = {
   // Custom OPT errors
   NOT_FOUND: -32000,
   INVALID_STATE: -32001,
+  LIMIT_EXCEEDED: -32002,
+  CONFLICT: -32003,
 } as const;
 
 // =============================================================================
 // Handler
 // =============================================================================
 
+/**
+ * Per-request information from the transport, such as the authenticated
+ * caller. Passed to OPTHandler.handle.
+ */
+export interface OPTRequestContext {
+  /** Who is making the request; recorded in status history */
+  actor?: string;
+}
+
 export type MethodHandler<TParams = unknown, TResult = unknown> = (
-  params: TParams
+  params: TParams,
+  context: OPTRequestContext
 ) => Promise<TResult>;
 
+export type StreamingMethodHandler<TParams = unknown, TResult = unknown> = (
+  params: TParams,
+  signal?: AbortSignal
+) => AsyncIterable<TResult>;
+
+/**
+ * Options for OPTHandler.
+ */
+export interface OPTHandlerOptions {
+  /**
+   * Policy for rolling task and plan status changes up to their parents.
+   * Defaults to DEFAULT_PROPAGATION_POLICY; pass false to disable.
+   */
+  propagation?: PropagationPolicy | false;
+
+  /**
+   * Limits to enforce, normally the same params advertised on the AgentCard.
+   * Unset limits are not enforced.
+   */
+  params?: OPTExtensionParams;
+
+  /**
+   * State machines for objective, plan and task statuses, including status
+   * propagation. Each one given replaces the default for that entity.
+   */
+  transitions?: TransitionPolicies;
+}
+
 /**
  * OPT extension RPC handler.
  * 
@@ -87,48 +188,186 @@ export type MethodHandler<TParams = unknown, TResult = unknown> = (
  * ```
  */
 export class OPTHandler {
-  private store: OPTStore;
+  private store: ObservableOPTStore;
   private methods: Map<string, MethodHandler>;
+  private streamingMethods: Map<string, StreamingMethodHandler>;
+  private propagation: PropagationPolicy | null;
+  private transitions: Required<TransitionPolicies>;
+  private params: OPTExtensionParams;
 
-  constructor(store: OPTStore) {
-    this.store = store;
+  constructor(store: OPTStore, options: OPTHandlerOptions = {}) {
+    this.store = store instanceof ObservableOPTStore ? store : new ObservableOPTStore(store);
     this.methods = new Map();
+    this.streamingMethods = new Map();
+    this.params = { ...options.params };
+    this.propagation = options.propagation === false
+      ? null
+      : options.propagation ?? DEFAULT_PROPAGATION_POLICY;
+    this.transitions = resolveTransitionPolicies(options.transitions);
     this.registerMethods();
   }
 
   private registerMethods(): void {
     // Objectives
     this.methods.set('objectives/create', this.objectivesCreate.bind(this));
+    this.methods.set('objectives/createWithPlans', this.objectivesCreateWithPlans.bind(this));
     this.methods.set('objectives/get', this.objectivesGet.bind(this));
     this.methods.set('objectives/list', this.objectivesList.bind(this));
     this.methods.set('objectives/update', this.objectivesUpdate.bind(this));
+    this.methods.set('objectives/replan', this.objectivesReplan.bind(this));
+    this.methods.set('objectives/delete', this.objectivesDelete.bind(this));
+    this.methods.set('objectives/restore', this.objectivesRestore.bind(this));
+    if (this.store.getStatusHistory) {
+      this.methods.set('objectives/history', this.objectivesHistory.bind(this));
+    }
     
     // Plans
     this.methods.set('plans/create', this.plansCreate.bind(this));
     this.methods.set('plans/get', this.plansGet.bind(this));
+    this.methods.set('plans/list', this.plansList.bind(this));
     this.methods.set('plans/update', this.plansUpdate.bind(this));
+    this.methods.set('plans/addTasks', this.plansAddTasks.bind(this));
+    this.methods.set('plans/delete', this.plansDelete.bind(this));
+    if (this.store.getStatusHistory) {
+      this.methods.set('plans/history', this.plansHistory.bind(this));
+    }
+    
+    // Plan tasks
+    this.methods.set('planTasks/get', this.planTasksGet.bind(this));
+    this.methods.set('planTasks/update', this.planTasksUpdate.bind(this));
+    this.methods.set('planTasks/link', this.planTasksLink.bind(this));
+    if (this.store.getStatusHistory) {
+      this.methods.set('planTasks/history', this.planTasksHistory.bind(this));
+    }
+    
+    // Streaming
+    this.streamingMethods.set('objectives/subscribe', this.objectivesSubscribe.bind(this));
   }
 
   /**
    * Check if this handler can handle the given method.
    */
   canHandle(method: string): boolean {
-    return this.methods.has(method);
+    return this.methods.has(method) || this.streamingMethods.has(method);
+  }
+
+  /**
+   * Check if the given method streams its results (see handleStream).
+   */
+  isStreaming(method: string): boolean {
+    return this.streamingMethods.has(method);
   }
 
   /**
    * Get list of supported methods.
    */
   getSupportedMethods(): string[] {
-    return Array.from(this.methods.keys());
+    return [...this.methods.keys(), ...this.streamingMethods.keys()];
+  }
+
+  /**
+   * Listen to every change made through this handler, including status
+   * propagation. Returns a function that removes the listener.
+   */
+  onChange(listener: OPTChangeListener): () => void {
+    return this.store.subscribe(listener);
+  }
+
+  /**
+   * Get the extension params this handler enforces.
+   * 
+   * @example
+   * ```typescript
+   * const declaration = createOPTExtensionDeclaration(handler.getExtensionParams());
+   * ```
+   */
+  getExtensionParams(): OPTExtensionParams {
+    return { ...this.params };
   }
 
   /**
-   * Handle a JSON-RPC request.
+   * Handle a JSON-RPC request, notification or batch.
+   * 
+   * Notifications (requests without an `id`) are executed but get no
+   * response. A batch is executed in order and answered with the responses
+   * of its non-notification entries, or nothing if there are none.
+   * 
+   * `context` describes the caller and applies to every entry of a batch.
+   * 
+   * @example
+   * ```typescript
+   * const responses = await handler.handle([
+   *   { jsonrpc: '2.0', id: 1, method: 'plans/update', params: { id: 'plan-1', status: 'working' } },
+   *   { jsonrpc: '2.0', id: 2, method: 'plans/update', params: { id: 'plan-2', status: 'working' } },
+   * ]);
+   * ```
    */
-  async handle<T = unknown>(request: JsonRpcRequest): Promise<JsonRpcResponse<T>> {
+  async handle<T = unknown>(
+    request: JsonRpcRequest & { id: string | number },
+    context?: OPTRequestContext
+  ): Promise<JsonRpcResponse<T>>;
+  async handle<T = unknown>(
+    request: [],
+    context?: OPTRequestContext
+  ): Promise<JsonRpcResponse<T>>;
+  async handle<T = unknown>(
+    request: unknown[],
+    context?: OPTRequestContext
+  ): Promise<JsonRpcResponse<T>[] | undefined>;
+  async handle<T = unknown>(
+    request: unknown,
+    context?: OPTRequestContext
+  ): Promise<JsonRpcResponse<T> | JsonRpcResponse<T>[] | undefined>;
+  async handle<T = unknown>(
+    request: unknown,
+    context: OPTRequestContext = {}
+  ): Promise<JsonRpcResponse<T> | JsonRpcResponse<T>[] | undefined> {
+    if (!Array.isArray(request)) {
+      return this.handleOne<T>(request, context);
+    }
+
+    if (request.length === 0) {
+      return invalidRequest(null) as JsonRpcResponse<T>;
+    }
+
+    const responses: JsonRpcResponse<T>[] = [];
+    for (const entry of request) {
+      const response = await this.handleOne<T>(entry, context);
+      if (response) responses.push(response);
+    }
+    return responses.length > 0 ? responses : undefined;
+  }
+
+  private async handleOne<T>(
+    request: unknown,
+    context: OPTRequestContext
+  ): Promise<JsonRpcResponse<T> | undefined> {
+    if (!isJsonRpcRequest(request)) {
+      const id = isObject(request) && isValidId(request.id) ? request.id : null;
+      return invalidRequest(id) as JsonRpcResponse<T>;
+    }
+
+    const response = await this.dispatch<T>(request, context);
+    return request.id === undefined ? undefined : response;
+  }
+
+  private async dispatch<T>(
+    request: JsonRpcRequest,
+    context: OPTRequestContext
+  ): Promise<JsonRpcResponse<T>> {
     const { method, id, params } = request;
 
+    if (this.streamingMethods.has(method)) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: JSON_RPC_ERRORS.INVALID_REQUEST,
+          message: `Method requires streaming: ${method}`,
+        },
+      };
+    }
+
     // Check if method is supported
     const handler = this.methods.get(method);
     if (!handler) {
@@ -143,19 +382,60 @@ export class OPTHandler {
     }
 
     try {
-      const result = await handler(params);
+      const result = await handler(params, context);
       return {
         jsonrpc: '2.0',
         id,
         result: result as T,
       };
     } catch (error) {
-      return this.errorResponse(id, error);
+      return this.errorResponse(id, error) as JsonRpcResponse<T>;
+    }
+  }
+
+  /**
+   * Handle a JSON-RPC request, yielding one response per streamed result.
+   * 
+   * Non-streaming methods yield their single response. Each response can be
+   * sent as one Server-Sent Event (see formatServerSentEvent).
+   * 
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const response of handler.handleStream(request, controller.signal)) {
+   *   res.write(formatServerSentEvent(response));
+   * }
+   * ```
+   */
+  async *handleStream<T = unknown>(
+    request: JsonRpcRequest,
+    signal?: AbortSignal,
+    context: OPTRequestContext = {}
+  ): AsyncGenerator<JsonRpcResponse<T>> {
+    const { method, id, params } = request;
+
+    if (!isJsonRpcRequest(request)) {
+      yield invalidRequest(isValidId(id) ? id : null) as JsonRpcResponse<T>;
+      return;
+    }
+
+    const stream = this.streamingMethods.get(method);
+    if (!stream) {
+      yield await this.dispatch<T>(request, context);
+      return;
+    }
+
+    try {
+      for await (const result of stream(params, signal)) {
+        yield { jsonrpc: '2.0', id, result: result as T };
+      }
+    } catch (error) {
+      yield this.errorResponse(id, error) as JsonRpcResponse<T>;
     }
   }
 
   private errorResponse(
-    id: string | number | undefined,
+    id: string | number | null | undefined,
     error: unknown
   ): JsonRpcResponse {
     if (error instanceof OPTError) {
@@ -195,8 +475,94 @@ export class OPTHandler {
       );
     }
 
-    const objective = await this.store.createObjective(params);
-    return { objective };
+    return this.atomically(async store => {
+      const objective = await store.createObjective(params);
+      return { objective };
+    });
+  }
+
+  /**
+   * Create an objective with its plans and tasks in one call.
+   * 
+   * Plans can depend on each other by `ref` or by "plan-N" index. The whole
+   * request is validated before anything is written.
+   */
+  private async objectivesCreateWithPlans(
+    params: CreateObjectiveWithPlansRequest
+  ): Promise<CreateObjectiveWithPlansResponse> {
+    if (!params?.name) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: name'
+      );
+    }
+    if (!Array.isArray(params.plans)) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: plans'
+      );
+    }
+
+    const refs = new Map<string, number>();
+    params.plans.forEach((plan, i) => {
+      this.assertValidPlanParams(plan, `plans[${i}].`);
+      if (plan.ref !== undefined) {
+        if (refs.has(plan.ref)) {
+          throw new OPTError(
+            JSON_RPC_ERRORS.INVALID_PARAMS,
+            `Duplicate plan ref: ${plan.ref}`
+          );
+        }
+        refs.set(plan.ref, i);
+      }
+    });
+
+    this.assertWithinLimit('maxPlansPerObjective', params.plans.length);
+    for (const plan of params.plans) {
+      this.assertWithinLimit('maxTasksPerPlan', plan.tasks?.length ?? 0);
+    }
+
+    // Replace refs with "plan-N" so the store only sees index references
+    const plans = params.plans.map(plan => ({
+      ...plan,
+      dependencies: plan.dependencies?.map(dep =>
+        refs.has(dep) ? `plan-${refs.get(dep)}` : dep
+      ),
+    }));
+
+    this.assertValidDependencies([
+      ...validateNewPlanDependencies(plans),
+      ...plans.flatMap(plan => validateTaskDependencies(plan.tasks ?? [], '', [])),
+    ]);
+
+    return this.atomically(async store => {
+      const data = { ...params, plans };
+      if (store.createObjectiveTree) {
+        return { objective: await store.createObjectiveTree(data) };
+      }
+
+      // Build step by step; the delete undoes a failure for stores that
+      // support neither this nor transactions
+      const objective = await store.createObjective(data);
+      try {
+        const planIds: string[] = [];
+        for (const plan of plans) {
+          const created = await store.createPlan({ ...plan, objectiveId: objective.id, dependencies: [] });
+          planIds.push(created.id);
+        }
+        for (let i = 0; i < plans.length; i++) {
+          const dependencies = resolvePlanDependencies(plans[i].dependencies, planIds);
+          if (dependencies.length > 0) {
+            await store.updatePlan(planIds[i], { dependencies });
+          }
+        }
+      } catch (error) {
+        await store.deleteObjective(objective.id);
+        throw error;
+      }
+
+      return { objective: (await store.getObjective(objective.id))! };
+    });
   }
 
   private async objectivesGet(
@@ -217,6 +583,11 @@ export class OPTHandler {
       );
     }
 
+    // Hide soft-deleted plans unless asked for
+    if (!params.includeDeleted && objective.plans) {
+      objective.plans = objective.plans.filter(plan => !plan.deletedAt);
+    }
+
     // If includePlans is false, remove plans
     if (params.includePlans === false) {
       delete objective.plans;
@@ -236,11 +607,49 @@ export class OPTHandler {
   private async objectivesList(
     params: ListObjectivesRequest = {}
   ): Promise<ListObjectivesResponse> {
+    if (params.status !== undefined) {
+      this.assertValidStatuses([params.status].flat(), this.transitions.objective.transitions);
+    }
+
+    if (params.query !== undefined && typeof params.query !== 'string') {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'query must be a string'
+      );
+    }
+
+    if (
+      params.metadata !== undefined &&
+      !(isObject(params.metadata) && Object.values(params.metadata).every(isMetadataValue))
+    ) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'metadata must map keys to strings, numbers or booleans'
+      );
+    }
+
+    if (params.orderBy !== undefined && !OBJECTIVE_SORT_FIELDS.includes(params.orderBy)) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Invalid orderBy: ${params.orderBy}`
+      );
+    }
+
+    if (params.direction !== undefined && params.direction !== 'asc' && params.direction !== 'desc') {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Invalid direction: ${params.direction}`
+      );
+    }
+
+    this.assertValidTimestamps(params, ['createdAfter', 'createdBefore', 'updatedAfter', 'updatedBefore']);
+
     return this.store.listObjectives(params);
   }
 
   private async objectivesUpdate(
-    params: UpdateObjectiveRequest
+    params: UpdateObjectiveRequest,
+    context: OPTRequestContext
   ): Promise<UpdateObjectiveResponse> {
     if (!params?.id) {
       throw new OPTError(
@@ -249,25 +658,237 @@ export class OPTHandler {
       );
     }
 
-    // Validate status transition if status is being changed
-    if (params.status) {
-      const current = await this.store.getObjective(params.id);
+    // Only pass fields clients may set; deletedAt and version belong to the store
+    const { expectedVersion, reason } = params;
+    const updates: Partial<Objective> = {};
+    if (params.name !== undefined) updates.name = params.name;
+    if (params.description !== undefined) updates.description = params.description;
+    if (params.status !== undefined) updates.status = params.status;
+    if (params.metadata !== undefined) updates.metadata = params.metadata;
+    this.assertValidExpectedVersion(expectedVersion);
+
+    return this.atomically(async store => {
+      // Soft-deleted objectives are hidden until restored, so they can't be updated
+      const current = await store.getObjective(params.id);
+      if (!current || current.deletedAt) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Objective not found: ${params.id}`
+        );
+      }
+      this.assertVersion('objective', current, expectedVersion);
+
+      if (params.status) {
+        this.assertTransition(this.transitions.objective, current, current.status, params.status, updates);
+        this.resume(current, params.status, updates);
+      }
+
+      const objective = await store.updateObjective(params.id, updates);
+      if (!objective) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Objective not found: ${params.id}`
+        );
+      }
+
+      if (current.status !== objective.status) {
+        await this.recordHistory(store, context, [
+          { entity: 'objective', id: objective.id, from: current.status, to: objective.status },
+        ], reason);
+      }
+
+      return { objective };
+    });
+  }
+
+  private async objectivesReplan(
+    params: ReplanObjectiveRequest,
+    context: OPTRequestContext
+  ): Promise<ReplanObjectiveResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+
+    const planStatus = params.planStatus ?? 'blocked';
+    if (planStatus !== 'blocked' && planStatus !== 'skipped') {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Invalid planStatus: ${planStatus}`
+      );
+    }
+
+    return this.atomically(async store => {
+      const current = await store.getObjective(params.id);
+      if (!current) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Objective not found: ${params.id}`
+        );
+      }
+
+      const objectivePath = this.resolveTransitionPath(
+        this.transitions.objective,
+        current,
+        'planning',
+        'blocked',
+        `Invalid status transition: ${current.status} → planning`
+      );
+
+      // Resolve every plan transition before writing anything, so an invalid
+      // plan leaves the whole tree untouched
+      const planPaths: Array<{ plan: Plan; path: PlanStatus[] }> = [];
+      const unchangedPlanIds: string[] = [];
+      for (const plan of current.plans ?? []) {
+        if (plan.status === 'completed' || plan.status === 'skipped') continue;
+        // Failed plans can only be retried, and pending plans have not
+        // started, so there is nothing to pause
+        if (plan.status === 'failed' || (planStatus === 'blocked' && plan.status === 'pending')) {
+          unchangedPlanIds.push(plan.id);
+          continue;
+        }
+
+        const path = this.resolveTransitionPath(
+          this.transitions.plan,
+          plan,
+          planStatus,
+          'blocked',
+          `Invalid status transition for plan ${plan.id}: ${plan.status} → ${planStatus}`
+        );
+        planPaths.push({ plan, path });
+      }
+
+      const replanMetadata: Record<string, unknown> = {
+        [OPT_METADATA.REPLANNED_AT]: timestamp(),
+      };
+      if (params.reason) {
+        replanMetadata[OPT_METADATA.REPLAN_REASON] = params.reason;
+      }
+
+      const history: StatusTransition[] = [];
+      for (const { plan, path } of planPaths) {
+        for (const status of path.slice(0, -1)) {
+          await store.updatePlan(plan.id, { status });
+        }
+        const status = path[path.length - 1] ?? plan.status;
+        await store.updatePlan(plan.id, {
+          status,
+          metadata: status === 'blocked'
+            ? { ...plan.metadata, ...replanMetadata, [OPT_METADATA.PAUSED]: true }
+            : { ...plan.metadata, ...replanMetadata },
+        });
+        let from = plan.status;
+        for (const to of path) {
+          history.push({ entity: 'plan', id: plan.id, from, to });
+          from = to;
+        }
+      }
+
+      for (const status of objectivePath.slice(0, -1)) {
+        await store.updateObjective(params.id, { status });
+      }
+      await store.updateObjective(params.id, {
+        status: 'planning',
+        metadata: { ...current.metadata, ...replanMetadata, [OPT_METADATA.PAUSED]: true },
+      });
+      let from = current.status;
+      for (const to of objectivePath) {
+        history.push({ entity: 'objective', id: params.id, from, to });
+        from = to;
+      }
+      await this.recordHistory(store, context, history, params.reason);
+
+      const objective = await store.getObjective(params.id);
+      if (!objective) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Objective not found: ${params.id}`
+        );
+      }
+
+      return { objective, unchangedPlanIds };
+    });
+  }
+
+  private async objectivesDelete(
+    params: DeleteObjectiveRequest
+  ): Promise<DeleteObjectiveResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+    const mode = this.deleteMode(params.mode);
+
+    return this.atomically(async store => {
+      const current = await store.getObjective(params.id);
+      if (!current) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Objective not found: ${params.id}`
+        );
+      }
+
+      if (mode === 'hard') {
+        await store.deleteObjective(params.id);
+        return { id: params.id, mode };
+      }
+
+      const objective = current.deletedAt
+        ? current
+        : await store.updateObjective(params.id, { deletedAt: timestamp() });
+      return { id: params.id, mode, objective: objective! };
+    });
+  }
+
+  private async objectivesRestore(
+    params: RestoreObjectiveRequest
+  ): Promise<RestoreObjectiveResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+
+    return this.atomically(async store => {
+      const current = await store.getObjective(params.id);
       if (!current) {
         throw new OPTError(
           JSON_RPC_ERRORS.NOT_FOUND,
           `Objective not found: ${params.id}`
         );
       }
-      
-      if (!isValidObjectiveTransition(current.status, params.status)) {
+      if (!current.deletedAt) {
         throw new OPTError(
           JSON_RPC_ERRORS.INVALID_STATE,
-          `Invalid status transition: ${current.status} → ${params.status}`
+          `Objective is not deleted: ${params.id}`
         );
       }
+
+      const objective = await store.updateObjective(params.id, { deletedAt: undefined });
+      return { objective: objective! };
+    });
+  }
+
+  /**
+   * Status changes of an objective, oldest first. Only registered when the
+   * store keeps a history.
+   */
+  private async objectivesHistory(
+    params: GetObjectiveHistoryRequest
+  ): Promise<GetObjectiveHistoryResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
     }
 
-    const objective = await this.store.updateObjective(params.id, params);
+    const objective = await this.store.getObjective(params.id);
     if (!objective) {
       throw new OPTError(
         JSON_RPC_ERRORS.NOT_FOUND,
@@ -275,7 +896,36 @@ export class OPTHandler {
       );
     }
 
-    return { objective };
+    return { history: await this.store.getStatusHistory!('objective', params.id) };
+  }
+
+  /**
+   * Stream the objective tree, then every change to it until the objective
+   * is deleted or the subscriber goes away.
+   */
+  private async *objectivesSubscribe(
+    params: SubscribeObjectiveRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<SubscribeObjectiveUpdate> {
+    if (!params?.id) {
+      throw new OPTError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Missing required parameter: id');
+    }
+
+    // Watch before reading so no change falls between snapshot and events
+    const events = this.store.watch(params.id, signal);
+    try {
+      const objective = await this.store.getObjective(params.id);
+      if (!objective) {
+        throw new OPTError(JSON_RPC_ERRORS.NOT_FOUND, `Objective not found: ${params.id}`);
+      }
+      yield { objective };
+
+      for await (const event of events) {
+        yield { event };
+      }
+    } finally {
+      await events.return?.();
+    }
   }
 
   // =========================================================================
@@ -291,24 +941,42 @@ export class OPTHandler {
         'Missing required parameter: objectiveId'
       );
     }
-    if (!params?.name) {
-      throw new OPTError(
-        JSON_RPC_ERRORS.INVALID_PARAMS,
-        'Missing required parameter: name'
-      );
-    }
+    this.assertValidPlanParams(params);
 
-    // Verify objective exists
-    const objective = await this.store.getObjective(params.objectiveId);
-    if (!objective) {
-      throw new OPTError(
-        JSON_RPC_ERRORS.NOT_FOUND,
-        `Objective not found: ${params.objectiveId}`
+    return this.atomically(async store => {
+      // Verify objective exists
+      const objective = await store.getObjective(params.objectiveId);
+      if (!objective) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Objective not found: ${params.objectiveId}`
+        );
+      }
+      if (objective.deletedAt) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_STATE,
+          `Cannot add plans to deleted objective: ${params.objectiveId}`
+        );
+      }
+
+      const plans = objective.plans?.filter(plan => !plan.deletedAt) ?? [];
+      this.assertWithinLimit('maxPlansPerObjective', plans.length + 1);
+      this.assertWithinLimit('maxTasksPerPlan', params.tasks?.length ?? 0);
+
+      const knownPlans = await this.knownPlans(
+        store,
+        params.objectiveId,
+        params.dependencies,
+        params.tasks?.flatMap(task => task.dependencies ?? [])
       );
-    }
+      this.assertValidDependencies([
+        ...validatePlanDependencies(params, knownPlans),
+        ...validateTaskDependencies(params.tasks ?? [], params.objectiveId, knownPlans),
+      ]);
 
-    const plan = await this.store.createPlan(params);
-    return { plan };
+      const plan = await store.createPlan(params);
+      return { plan };
+    });
   }
 
   private async plansGet(params: GetPlanRequest): Promise<GetPlanResponse> {
@@ -335,8 +1003,19 @@ export class OPTHandler {
     return { plan };
   }
 
+  private async plansList(params: ListPlansRequest = {}): Promise<ListPlansResponse> {
+    if (params.status !== undefined) {
+      this.assertValidStatuses([params.status].flat(), this.transitions.plan.transitions);
+    }
+
+    this.assertValidTimestamps(params, ['updatedAfter', 'updatedBefore']);
+
+    return this.store.listPlans(params);
+  }
+
   private async plansUpdate(
-    params: UpdatePlanRequest
+    params: UpdatePlanRequest,
+    context: OPTRequestContext
   ): Promise<UpdatePlanResponse> {
     if (!params?.id) {
       throw new OPTError(
@@ -345,25 +1024,214 @@ export class OPTHandler {
       );
     }
 
-    // Validate status transition if status is being changed
-    if (params.status) {
-      const current = await this.store.getPlan(params.id);
+    // Only pass fields clients may set; deletedAt and version belong to the store
+    const { expectedVersion, reason } = params;
+    const updates: Partial<Plan> = {};
+    if (params.name !== undefined) updates.name = params.name;
+    if (params.description !== undefined) updates.description = params.description;
+    if (params.status !== undefined) updates.status = params.status;
+    if (params.dependencies !== undefined) updates.dependencies = params.dependencies;
+    if (params.metadata !== undefined) updates.metadata = params.metadata;
+    this.assertValidExpectedVersion(expectedVersion);
+
+    return this.atomically(async store => {
+      // Soft-deleted plans are hidden until restored, so they can't be updated
+      const current = await store.getPlan(params.id);
+      if (!current || current.deletedAt) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Plan not found: ${params.id}`
+        );
+      }
+      this.assertVersion('plan', current, expectedVersion);
+
+      if (params.status) {
+        this.assertTransition(this.transitions.plan, current, current.status, params.status, updates);
+        this.resume(current, params.status, updates);
+      }
+
+      if (params.dependencies) {
+        const knownPlans = await this.knownPlans(store, current.objectiveId, params.dependencies);
+        this.assertValidDependencies(validatePlanDependencies(
+          { id: current.id, objectiveId: current.objectiveId, dependencies: params.dependencies },
+          knownPlans
+        ));
+      }
+
+      const plan = await store.updatePlan(params.id, updates);
+      if (!plan) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Plan not found: ${params.id}`
+        );
+      }
+
+      if (current.status === plan.status) {
+        return { plan };
+      }
+
+      await this.recordHistory(store, context, [
+        { entity: 'plan', id: plan.id, from: current.status, to: plan.status },
+      ], reason);
+
+      if (this.propagation) {
+        const propagated = await new StatusPropagator(store, this.propagation, this.transitions).propagateFromPlan(plan);
+        await this.recordHistory(store, context, propagated, `Propagated from plan ${plan.id}`);
+        return { plan, propagated };
+      }
+
+      return { plan };
+    });
+  }
+
+  private async plansAddTasks(
+    params: AddPlanTasksRequest
+  ): Promise<AddPlanTasksResponse> {
+    if (!params?.planId) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: planId'
+      );
+    }
+    if (!Array.isArray(params.tasks) || params.tasks.length === 0) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: tasks'
+      );
+    }
+    if (params.tasks.some(task => !task?.name)) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: tasks[].name'
+      );
+    }
+
+    return this.atomically(async store => {
+      const current = await store.getPlan(params.planId);
+      if (!current) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Plan not found: ${params.planId}`
+        );
+      }
+
+      const taskCount = current.tasks?.length ?? 0;
+      if (
+        params.position !== undefined &&
+        (!Number.isInteger(params.position) || params.position < 0 || params.position > taskCount)
+      ) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          `Invalid position: ${params.position} (plan has ${taskCount} tasks)`
+        );
+      }
+
+      if (current.status === 'completed' || current.status === 'skipped') {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_STATE,
+          `Cannot add tasks to plan in status: ${current.status}`
+        );
+      }
+      if (current.deletedAt) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_STATE,
+          `Cannot add tasks to deleted plan: ${params.planId}`
+        );
+      }
+
+      this.assertWithinLimit('maxTasksPerPlan', taskCount + params.tasks.length);
+
+      const knownPlans = await this.knownPlans(
+        store,
+        current.objectiveId,
+        [],
+        params.tasks.flatMap(task => task.dependencies ?? [])
+      );
+      this.assertValidDependencies(
+        validateTaskDependencies(params.tasks, current.objectiveId, knownPlans)
+      );
+
+      const tasks = await store.addPlanTasks(params);
+      const plan = await store.getPlan(params.planId);
+      if (!tasks || !plan) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `Plan not found: ${params.planId}`
+        );
+      }
+
+      return { plan, tasks };
+    });
+  }
+
+  /**
+   * Delete a plan. Plans other plans depend on are only deleted with
+   * `force`. A hard delete drops those dependencies; a soft delete keeps
+   * them, since scheduling ignores deleted plans.
+   */
+  private async plansDelete(
+    params: DeletePlanRequest
+  ): Promise<DeletePlanResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+    const mode = this.deleteMode(params.mode);
+
+    return this.atomically(async store => {
+      const current = await store.getPlan(params.id);
       if (!current) {
         throw new OPTError(
           JSON_RPC_ERRORS.NOT_FOUND,
           `Plan not found: ${params.id}`
         );
       }
-      
-      if (!isValidPlanTransition(current.status, params.status)) {
+
+      const siblings = await store.getPlansForObjective(current.objectiveId);
+      const dependents = siblings.filter(plan =>
+        plan.id !== current.id && !plan.deletedAt && plan.dependencies?.includes(current.id)
+      );
+      if (dependents.length > 0 && !params.force) {
         throw new OPTError(
           JSON_RPC_ERRORS.INVALID_STATE,
-          `Invalid status transition: ${current.status} → ${params.status}`
+          `Plan ${params.id} is a dependency of: ${dependents.map(plan => plan.id).join(', ')}`,
+          { dependents: dependents.map(plan => plan.id) }
         );
       }
+      if (mode === 'hard') {
+        for (const plan of dependents) {
+          await store.updatePlan(plan.id, {
+            dependencies: plan.dependencies!.filter(id => id !== current.id),
+          });
+        }
+        await store.deletePlan(params.id);
+        return { id: params.id, mode };
+      }
+
+      const plan = current.deletedAt
+        ? current
+        : await store.updatePlan(params.id, { deletedAt: timestamp() });
+      return { id: params.id, mode, plan: plan! };
+    });
+  }
+
+  /**
+   * Status changes of a plan, oldest first. Only registered when the store
+   * keeps a history.
+   */
+  private async plansHistory(
+    params: GetPlanHistoryRequest
+  ): Promise<GetPlanHistoryResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
     }
 
-    const plan = await this.store.updatePlan(params.id, params);
+    const plan = await this.store.getPlan(params.id);
     if (!plan) {
       throw new OPTError(
         JSON_RPC_ERRORS.NOT_FOUND,
@@ -371,7 +1239,472 @@ export class OPTHandler {
       );
     }
 
-    return { plan };
+    return { history: await this.store.getStatusHistory!('plan', params.id) };
+  }
+
+  // =========================================================================
+  // Plan Task Methods
+  // =========================================================================
+
+  private async planTasksGet(
+    params: GetPlanTaskRequest
+  ): Promise<GetPlanTaskResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+
+    const task = await this.store.getPlanTask(params.id);
+    if (!task) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.NOT_FOUND,
+        `PlanTask not found: ${params.id}`
+      );
+    }
+
+    return { task };
+  }
+
+  private async planTasksUpdate(
+    params: UpdatePlanTaskRequest,
+    context: OPTRequestContext
+  ): Promise<UpdatePlanTaskResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+
+    // Only descriptive fields and status are client-writable; structure
+    // (plan, index, dependencies, link) is managed by other methods
+    const updates: Partial<PlanTask> = {};
+    if (params.name !== undefined) updates.name = params.name;
+    if (params.description !== undefined) updates.description = params.description;
+    if (params.status !== undefined) updates.status = params.status;
+    if (params.metadata !== undefined) updates.metadata = params.metadata;
+    this.assertValidExpectedVersion(params.expectedVersion);
+    if (params.status !== undefined) {
+      this.assertValidStatuses([params.status], this.transitions.task.transitions);
+    }
+
+    return this.atomically(async store => {
+      const current = await store.getPlanTask(params.id);
+      // Tasks created before statuses were tracked count as pending
+      const from = current?.status ?? 'pending';
+      if (current) {
+        this.assertVersion('task', current, params.expectedVersion);
+
+        if (params.status) {
+          this.assertTransition(this.transitions.task, current, from, params.status, updates);
+        }
+      }
+      const task = current && await store.updatePlanTask(params.id, updates);
+      if (!current || !task) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `PlanTask not found: ${params.id}`
+        );
+      }
+
+      const to = task.status ?? 'pending';
+      if (from === to) {
+        return { task };
+      }
+
+      await this.recordHistory(store, context, [
+        { entity: 'task', id: task.id, from, to },
+      ], params.reason);
+
+      if (this.propagation) {
+        const propagated = await new StatusPropagator(store, this.propagation, this.transitions).propagateFromTask(task);
+        await this.recordHistory(store, context, propagated, `Propagated from PlanTask ${task.id}`);
+        return { task, propagated };
+      }
+
+      return { task };
+    });
+  }
+
+  private async planTasksLink(
+    params: LinkPlanTaskRequest
+  ): Promise<LinkPlanTaskResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+    if (!params?.a2aTaskId) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: a2aTaskId'
+      );
+    }
+
+    return this.atomically(async store => {
+      const current = await store.getPlanTask(params.id);
+      if (!current) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `PlanTask not found: ${params.id}`
+        );
+      }
+
+      if (current.a2aTaskId && current.a2aTaskId !== params.a2aTaskId) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_STATE,
+          `PlanTask ${params.id} is already linked to A2A task: ${current.a2aTaskId}`
+        );
+      }
+
+      await store.linkA2ATask(params.id, params.a2aTaskId);
+
+      const task = await store.getPlanTask(params.id);
+      if (!task) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.NOT_FOUND,
+          `PlanTask not found: ${params.id}`
+        );
+      }
+
+      return { task };
+    });
+  }
+
+  /**
+   * Status changes of a PlanTask, oldest first. Only registered when the
+   * store keeps a history.
+   */
+  private async planTasksHistory(
+    params: GetPlanTaskHistoryRequest
+  ): Promise<GetPlanTaskHistoryResponse> {
+    if (!params?.id) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Missing required parameter: id'
+      );
+    }
+
+    const task = await this.store.getPlanTask(params.id);
+    if (!task) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.NOT_FOUND,
+        `PlanTask not found: ${params.id}`
+      );
+    }
+
+    return { history: await this.store.getStatusHistory!('task', params.id) };
+  }
+
+  // =========================================================================
+  // Transactions
+  // =========================================================================
+
+  /**
+   * Run a read-check-write sequence in a store transaction when the store
+   * supports one, so concurrent requests cannot interleave with it and a
+   * failure part-way leaves nothing behind.
+   */
+  private atomically<T>(fn: (store: OPTStore) => Promise<T>): Promise<T> {
+    return this.store.transaction ? this.store.transaction(fn) : fn(this.store);
+  }
+
+  // =========================================================================
+  // Status History
+  // =========================================================================
+
+  /**
+   * Record status changes made on behalf of the request, if the store keeps
+   * a history. Runs inside the write's transaction.
+   */
+  private async recordHistory(
+    store: OPTStore,
+    context: OPTRequestContext,
+    transitions: Array<StatusTransition | PlanTaskTransition>,
+    reason?: string
+  ): Promise<void> {
+    if (!store.addStatusHistory || transitions.length === 0) return;
+
+    const at = timestamp();
+    await store.addStatusHistory(transitions.map(transition => {
+      const entry: StatusHistoryEntry = { ...transition, timestamp: at };
+      if (context.actor) entry.actor = context.actor;
+      if (reason) entry.reason = reason;
+      return entry;
+    }));
+  }
+
+  // =========================================================================
+  // Listing
+  // =========================================================================
+
+  private assertValidStatuses(statuses: unknown[], transitions: Record<string, unknown>): void {
+    for (const status of statuses) {
+      if (typeof status !== 'string' || !Object.keys(transitions).includes(status)) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          `Invalid status: ${status}`
+        );
+      }
+    }
+  }
+
+  private assertValidTimestamps<K extends string>(
+    params: Partial<Record<K, unknown>>,
+    keys: K[]
+  ): void {
+    for (const key of keys) {
+      const value = params[key];
+      if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          `Invalid ${key}: ${value}`
+        );
+      }
+    }
+  }
+
+  // =========================================================================
+  // State Machines
+  // =========================================================================
+
+  /**
+   * Throw INVALID_STATE, listing the statuses the entity may move to, if the
+   * policy does not allow the change.
+   */
+  private assertTransition<S extends string, E>(
+    policy: TransitionPolicy<S, E>,
+    current: E,
+    from: S,
+    to: S,
+    update: Partial<E>
+  ): void {
+    if (!isAllowedTransition(policy, current, from, to, update)) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_STATE,
+        `Invalid status transition: ${from} → ${to}`,
+        { from, to, allowed: (policy.transitions[from] ?? []).filter(status => status !== to) }
+      );
+    }
+  }
+
+  /**
+   * Find the status changes that move an entity to `to`, by way of `via` if
+   * need be, or throw INVALID_STATE with `message`. The guard of each step
+   * sees the entity as the steps before it leave it.
+   */
+  private resolveTransitionPath<S extends string, E extends { status: S }>(
+    policy: TransitionPolicy<S, E>,
+    entity: E,
+    to: S,
+    via: S,
+    message: string
+  ): S[] {
+    // Statuses refused straight from the current one stay out of `allowed`
+    const refused = new Set<S>();
+    const path = transitionPath(entity.status, to, via, (from, next) => {
+      const update = { status: next } as Partial<E>;
+      const allowed = isAllowedTransition(policy, { ...entity, status: from }, from, next, update);
+      if (!allowed && from === entity.status) refused.add(next);
+      return allowed;
+    });
+    if (!path) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_STATE,
+        message,
+        {
+          from: entity.status,
+          to,
+          allowed: (policy.transitions[entity.status] ?? []).filter(status => !refused.has(status)),
+        }
+      );
+    }
+    return path;
+  }
+
+  /**
+   * Clear the pause objectives/replan left on an entity once its status
+   * changes, so status propagation moves it again.
+   */
+  private resume<E extends { status: string; metadata?: Record<string, unknown> }>(
+    current: E,
+    status: string,
+    updates: Partial<E>
+  ): void {
+    if (status === current.status) return;
+    const metadata = updates.metadata ?? current.metadata;
+    if (!metadata || !(OPT_METADATA.PAUSED in metadata)) return;
+
+    const resumed = { ...metadata };
+    delete resumed[OPT_METADATA.PAUSED];
+    updates.metadata = resumed;
+  }
+
+  // =========================================================================
+  // Deletion
+  // =========================================================================
+
+  /**
+   * Validate a delete mode, defaulting to a hard delete.
+   */
+  private deleteMode(mode: unknown): DeleteMode {
+    if (mode === undefined) return 'hard';
+    if (mode !== 'hard' && mode !== 'soft') {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Invalid mode: ${mode}`
+      );
+    }
+    return mode;
+  }
+
+  // =========================================================================
+  // Optimistic Concurrency
+  // =========================================================================
+
+  private assertValidExpectedVersion(expectedVersion: unknown): void {
+    if (expectedVersion !== undefined && !Number.isInteger(expectedVersion)) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Invalid expectedVersion: ${expectedVersion}`
+      );
+    }
+  }
+
+  /**
+   * Throw CONFLICT, carrying the current entity, if it is no longer at the
+   * version the client read.
+   */
+  private assertVersion(
+    entity: 'objective' | 'plan' | 'task',
+    current: Objective | Plan | PlanTask,
+    expectedVersion: number | undefined
+  ): void {
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.CONFLICT,
+        `Version conflict: ${entity} ${current.id} is at version ${current.version}, expected ${expectedVersion}`,
+        { [entity]: current }
+      );
+    }
+  }
+
+  // =========================================================================
+  // Plan Parameters
+  // =========================================================================
+
+  /**
+   * Check the shape of a plan to create, so bad input is refused before
+   * anything is written. `path` prefixes the parameter names in messages.
+   */
+  private assertValidPlanParams(plan: PlanInput, path = ''): void {
+    if (!plan?.name || typeof plan.name !== 'string') {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Missing required parameter: ${path}name`
+      );
+    }
+    this.assertStringArray(plan.dependencies, `${path}dependencies`);
+
+    if (plan.tasks === undefined) return;
+    if (!Array.isArray(plan.tasks)) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `${path}tasks must be an array`
+      );
+    }
+    plan.tasks.forEach((task, i) => {
+      if (!task?.name || typeof task.name !== 'string') {
+        throw new OPTError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          `Missing required parameter: ${path}tasks[${i}].name`
+        );
+      }
+      this.assertStringArray(task.dependencies, `${path}tasks[${i}].dependencies`);
+    });
+  }
+
+  private assertStringArray(value: unknown, name: string): void {
+    if (value !== undefined && !(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `${name} must be an array of strings`
+      );
+    }
+  }
+
+  // =========================================================================
+  // Dependency Validation
+  // =========================================================================
+
+  /**
+   * Load the plans dependencies may refer to: every plan of the objective,
+   * plus any plan (or plan of a task) referenced from outside it, so
+   * cross-objective references can be told apart from dangling ones.
+   */
+  private async knownPlans(
+    store: OPTStore,
+    objectiveId: string,
+    planIds: string[] = [],
+    taskRefs: string[] = []
+  ): Promise<Plan[]> {
+    const plans = await store.getPlansForObjective(objectiveId);
+    const planIdsKnown = new Set(plans.map(plan => plan.id));
+    const taskIdsKnown = new Set(plans.flatMap(plan => plan.tasks ?? []).map(task => task.id));
+
+    const addPlan = async (id: string) => {
+      if (planIdsKnown.has(id)) return;
+      const plan = await store.getPlan(id);
+      if (plan) {
+        plans.push(plan);
+        planIdsKnown.add(plan.id);
+        for (const task of plan.tasks ?? []) taskIdsKnown.add(task.id);
+      }
+    };
+
+    for (const id of planIds) {
+      await addPlan(id);
+    }
+    for (const ref of taskRefs) {
+      if (/^task-\d+$/.test(ref) || taskIdsKnown.has(ref)) continue;
+      const task = await store.getPlanTask(ref);
+      if (task) await addPlan(task.planId);
+    }
+    return plans;
+  }
+
+  private assertValidDependencies(issues: DependencyIssue[]): void {
+    if (issues.length > 0) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Invalid dependencies: ${issues.length} offending edge(s)`,
+        { issues }
+      );
+    }
+  }
+
+  // =========================================================================
+  // Limits
+  // =========================================================================
+
+  /**
+   * Throw LIMIT_EXCEEDED if the resulting count is over the configured limit.
+   */
+  private assertWithinLimit(
+    limit: 'maxPlansPerObjective' | 'maxTasksPerPlan',
+    count: number
+  ): void {
+    const max = this.params[limit];
+    if (max !== undefined && count > max) {
+      throw new OPTError(
+        JSON_RPC_ERRORS.LIMIT_EXCEEDED,
+        `Limit exceeded: ${limit} is ${max}, request would make ${count}`,
+        { limit, max, count }
+      );
+    }
   }
 }
 
@@ -394,54 +1727,44 @@ export class OPTError extends Error {
 }
 
 // =============================================================================
-// State Transitions
+// Listing
 // =============================================================================
 
-import { ObjectiveStatus, PlanStatus } from './types.js';
+const OBJECTIVE_SORT_FIELDS: ObjectiveSortField[] = ['createdAt', 'updatedAt', 'name'];
 
-/**
- * Valid objective status transitions.
- */
-const VALID_OBJECTIVE_TRANSITIONS: Record<ObjectiveStatus, ObjectiveStatus[]> = {
-  submitted: ['planning', 'working', 'canceled'],
-  planning: ['working', 'blocked', 'failed', 'canceled'],
-  working: ['blocked', 'completed', 'failed', 'canceled'],
-  blocked: ['planning', 'working', 'failed', 'canceled'],
-  completed: [],  // Terminal state
-  failed: ['submitted', 'planning'],  // Can retry
-  canceled: ['submitted'],  // Can restart
-};
+function isMetadataValue(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
 
-/**
- * Valid plan status transitions.
- */
-const VALID_PLAN_TRANSITIONS: Record<PlanStatus, PlanStatus[]> = {
-  pending: ['working', 'skipped'],
-  working: ['blocked', 'completed', 'failed'],
-  blocked: ['working', 'failed', 'skipped'],
-  completed: [],  // Terminal state
-  failed: ['pending', 'working'],  // Can retry
-  skipped: [],  // Terminal state
-};
+// =============================================================================
+// Envelope Validation
+// =============================================================================
 
-/**
- * Check if an objective status transition is valid.
- */
-export function isValidObjectiveTransition(
-  from: ObjectiveStatus,
-  to: ObjectiveStatus
-): boolean {
-  if (from === to) return true;  // No change is always valid
-  return VALID_OBJECTIVE_TRANSITIONS[from]?.includes(to) ?? false;
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-/**
- * Check if a plan status transition is valid.
- */
-export function isValidPlanTransition(
-  from: PlanStatus,
-  to: PlanStatus
-): boolean {
-  if (from === to) return true;  // No change is always valid
-  return VALID_PLAN_TRANSITIONS[from]?.includes(to) ?? false;
+function isValidId(id: unknown): id is string | number {
+  return typeof id === 'string' || typeof id === 'number';
+}
+
+function isJsonRpcRequest(request: unknown): request is JsonRpcRequest {
+  return (
+    isObject(request) &&
+    request.jsonrpc === '2.0' &&
+    typeof request.method === 'string' &&
+    (request.id === undefined || isValidId(request.id)) &&
+    (request.params === undefined || (typeof request.params === 'object' && request.params !== null))
+  );
+}
+
+function invalidRequest(id: string | number | null): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: {
+      code: JSON_RPC_ERRORS.INVALID_REQUEST,
+      message: 'Invalid Request',
+    },
+  };
 }
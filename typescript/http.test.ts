@@ -0,0 +1,276 @@
+/**
+ * Tests for the HTTP adapters.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createOPTFetchHandler, createOPTRequestListener, FetchHandler } from './http.js';
+import { OPTHandler, JSON_RPC_ERRORS, JsonRpcResponse } from './handler.js';
+import { InMemoryOPTStore } from './store.js';
+import { CreateObjectiveResponse, OPT_EXTENSION_URI } from './types.js';
+
+const OPT_HEADERS = {
+  'Content-Type': 'application/json',
+  'X-A2A-Extensions': OPT_EXTENSION_URI,
+};
+
+function post(body: unknown, headers: Record<string, string> = OPT_HEADERS): Request {
+  return new Request('http://agent.test/rpc', {
+    method: 'POST',
+    headers,
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('createOPTFetchHandler', () => {
+  let handler: OPTHandler;
+  let serve: FetchHandler;
+
+  beforeEach(() => {
+    handler = new OPTHandler(new InMemoryOPTStore());
+    serve = createOPTFetchHandler({ handler });
+  });
+
+  it('routes OPT methods and echoes the extension header', async () => {
+    const response = await serve(post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'objectives/create',
+      params: { name: 'Objective' },
+    }));
+
+    expect(response.headers.get('X-A2A-Extensions')).toBe(OPT_EXTENSION_URI);
+    const body = await response.json();
+    expect(body.id).toBe(1);
+    expect(body.result.objective.name).toBe('Objective');
+  });
+
+  it('returns PARSE_ERROR for malformed JSON', async () => {
+    const response = await serve(post('{"jsonrpc":'));
+
+    const body = await response.json();
+    expect(body.id).toBeNull();
+    expect(body.error.code).toBe(JSON_RPC_ERRORS.PARSE_ERROR);
+  });
+
+  it('returns INVALID_REQUEST for non-JSON-RPC bodies', async () => {
+    for (const invalid of [
+      { jsonrpc: '1.0', id: 1, method: 'objectives/list' },
+      { jsonrpc: '2.0', id: 1 },
+      { jsonrpc: '2.0', id: 1, method: 'objectives/list', params: 'x' },
+      'null',
+    ]) {
+      const body = await (await serve(post(invalid))).json();
+      expect(body.error.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    }
+  });
+
+  it('keeps the id of an invalid request', async () => {
+    const body = await (await serve(post({ jsonrpc: '1.0', id: 7, method: 'x' }))).json();
+
+    expect(body.id).toBe(7);
+  });
+
+  it('answers batches with an array', async () => {
+    const response = await serve(post([
+      { jsonrpc: '2.0', id: 1, method: 'objectives/create', params: { name: 'Objective' } },
+      { jsonrpc: '2.0', id: 2, method: 'objectives/list' },
+    ]));
+
+    const body: JsonRpcResponse[] = await response.json();
+    expect(body.map(r => r.id)).toEqual([1, 2]);
+    expect(body[1].result).toMatchObject({ totalSize: 1 });
+  });
+
+  it('answers an empty batch with a single INVALID_REQUEST', async () => {
+    for (const headers of [OPT_HEADERS, { 'Content-Type': 'application/json' }]) {
+      const response = await serve(post([], headers));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ id: null, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST } });
+    }
+  });
+
+  it('answers notifications with 204 and no body', async () => {
+    const response = await serve(post({ jsonrpc: '2.0', method: 'objectives/create', params: { name: 'x' } }));
+
+    expect(response.status).toBe(204);
+    expect(await response.text()).toBe('');
+  });
+
+  it('passes the request context to the handler', async () => {
+    serve = createOPTFetchHandler({
+      handler,
+      context: request => ({ actor: request.headers.get('X-User') ?? undefined }),
+    });
+    const { result } = await (await serve(post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'objectives/create',
+      params: { name: 'Objective' },
+    }))).json();
+
+    await serve(post(
+      { jsonrpc: '2.0', id: 2, method: 'objectives/update', params: { id: result.objective.id, status: 'planning' } },
+      { ...OPT_HEADERS, 'X-User': 'alice' }
+    ));
+
+    const history = await (await serve(post({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'objectives/history',
+      params: { id: result.objective.id },
+    }))).json();
+    expect(history.result.history[0].actor).toBe('alice');
+  });
+
+  it('forwards batches with non-OPT methods to the fallback', async () => {
+    let forwarded: unknown;
+    serve = createOPTFetchHandler({
+      handler,
+      fallback: async request => {
+        forwarded = await request.json();
+        return new Response('[]');
+      },
+    });
+
+    const batch = [
+      { jsonrpc: '2.0', id: 1, method: 'objectives/list' },
+      { jsonrpc: '2.0', id: 2, method: 'message/send', params: {} },
+    ];
+    await serve(post(batch));
+
+    expect(forwarded).toEqual(batch);
+  });
+
+  it('rejects non-POST requests', async () => {
+    const response = await serve(new Request('http://agent.test/rpc'));
+
+    expect(response.status).toBe(405);
+  });
+
+  it('delegates non-POST requests to the fallback', async () => {
+    serve = createOPTFetchHandler({
+      handler,
+      fallback: request => new Response(JSON.stringify({ path: new URL(request.url).pathname })),
+    });
+
+    const response = await serve(new Request('http://agent.test/.well-known/agent-card.json'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ path: '/.well-known/agent-card.json' });
+  });
+
+  it('does not route OPT methods when the extension is not activated', async () => {
+    const response = await serve(post(
+      { jsonrpc: '2.0', id: 1, method: 'objectives/list' },
+      { 'Content-Type': 'application/json' }
+    ));
+
+    expect(response.headers.get('X-A2A-Extensions')).toBeNull();
+    expect((await response.json()).error.code).toBe(JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+  });
+
+  it('delegates other methods to the fallback with the body intact', async () => {
+    const received: unknown[] = [];
+    serve = createOPTFetchHandler({
+      handler,
+      fallback: async request => {
+        received.push(await request.json());
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result: 'a2a' }));
+      },
+    });
+
+    const message = { jsonrpc: '2.0', id: 1, method: 'message/send', params: {} };
+    const response = await serve(post(message));
+
+    expect((await response.json()).result).toBe('a2a');
+    expect(received).toEqual([message]);
+  });
+
+  it('delegates OPT methods to the fallback when not activated', async () => {
+    let called = false;
+    serve = createOPTFetchHandler({
+      handler,
+      fallback: () => {
+        called = true;
+        return new Response('{}');
+      },
+    });
+
+    await serve(post({ jsonrpc: '2.0', id: 1, method: 'objectives/list' }, {}));
+
+    expect(called).toBe(true);
+  });
+
+  it('streams subscriptions as Server-Sent Events', async () => {
+    const created = await handler.handle<CreateObjectiveResponse>({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'objectives/create',
+      params: { name: 'Objective' },
+    });
+    const objectiveId = created.result!.objective.id;
+
+    const response = await serve(post({
+      jsonrpc: '2.0',
+      id: 'sub',
+      method: 'objectives/subscribe',
+      params: { id: objectiveId },
+    }));
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const first = decoder.decode((await reader.read()).value);
+    expect(first).toMatch(/^data: .*\n\n$/);
+    expect(JSON.parse(first.slice(6)).result.objective.id).toBe(objectiveId);
+
+    await handler.handle({ jsonrpc: '2.0', id: 1, method: 'objectives/update', params: { id: objectiveId, name: 'x' } });
+    const second = decoder.decode((await reader.read()).value);
+    expect(JSON.parse(second.slice(6)).result.event.type).toBe('objective.updated');
+    await reader.cancel();
+  });
+});
+
+describe('createOPTRequestListener', () => {
+  let server: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    const handler = new OPTHandler(new InMemoryOPTStore());
+    server = createServer(createOPTRequestListener({ handler }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rpc`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('serves OPT methods over node:http', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: OPT_HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'objectives/create', params: { name: 'Objective' } }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-a2a-extensions')).toBe(OPT_EXTENSION_URI);
+    expect((await response.json()).result.objective.name).toBe('Objective');
+  });
+
+  it('rejects an empty batch over node:http', async () => {
+    const response = await fetch(url, { method: 'POST', headers: OPT_HEADERS, body: '[]' });
+
+    expect((await response.json()).error.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+  });
+
+  it('returns PARSE_ERROR over node:http', async () => {
+    const response = await fetch(url, { method: 'POST', headers: OPT_HEADERS, body: 'not json' });
+
+    expect((await response.json()).error.code).toBe(JSON_RPC_ERRORS.PARSE_ERROR);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * HTTP adapters for OPTHandler.
+ * 
+ * Serves OPT methods over JSON-RPC, either as a fetch-style
+ * `(Request) => Response` handler or as a `node:http` request listener.
+ * OPT methods are only routed when the client activates the extension via
+ * the X-A2A-Extensions header; everything else goes to a fallback handler,
+ * normally the agent's A2A server.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { OPT_EXTENSION_URI } from './types.js';
+import {
+  OPTHandler,
+  OPTRequestContext,
+  JSON_RPC_ERRORS,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from './handler.js';
+import { A2A_EXTENSIONS_HEADER, isOPTActivated } from './extension.js';
+import { formatServerSentEvent } from './events.js';
+
+/**
+ * A fetch-style HTTP handler.
+ */
+export type FetchHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Options for the HTTP adapters.
+ */
+export interface OPTHttpOptions {
+  handler: OPTHandler;
+  /**
+   * Receives non-POST requests (e.g. the AgentCard), requests for non-OPT
+   * methods, and OPT methods when the extension was not activated. Without
+   * one, non-POST requests get 405 and the others METHOD_NOT_FOUND.
+   */
+  fallback?: FetchHandler;
+  /**
+   * Describe the caller of a routed request, e.g. the actor from an
+   * authenticated session. Status changes it makes are recorded with it.
+   */
+  context?: (request: Request) => OPTRequestContext | Promise<OPTRequestContext>;
+}
+
+/**
+ * Create a fetch-style handler serving OPT methods.
+ * 
+ * @example
+ * ```typescript
+ * const serve = createOPTFetchHandler({ handler, fallback: a2aServer.fetch });
+ * const response = await serve(request);
+ * ```
+ */
+export function createOPTFetchHandler(options: OPTHttpOptions): FetchHandler {
+  const { handler, fallback, context } = options;
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method !== 'POST') {
+      if (fallback) return fallback(request);
+      return new Response(null, { status: 405, headers: { 'Allow': 'POST' } });
+    }
+
+    // Keep an unread copy for the fallback
+    const forward = fallback ? request.clone() : null;
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return jsonResponse(errorResponse(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+    }
+
+    // Batches are routed as a whole, so they must consist of OPT methods
+    const entries = Array.isArray(body) ? body : [body];
+    const methods = entries.map(entry => (isObject(entry) ? entry.method : undefined));
+    const routed = isOPTActivated(request.headers) &&
+      methods.every(method => typeof method !== 'string' || handler.canHandle(method));
+
+    if (!routed) {
+      if (forward) return fallback!(forward);
+      return jsonResponse(methodNotFound(body));
+    }
+
+    const headers = { [A2A_EXTENSIONS_HEADER]: OPT_EXTENSION_URI };
+    const requestContext = context ? await context(request) : {};
+    if (isObject(body) && typeof body.method === 'string' && handler.isStreaming(body.method)) {
+      return streamResponse(
+        handler.handleStream(body as unknown as JsonRpcRequest, request.signal, requestContext),
+        headers
+      );
+    }
+    return jsonResponse(await handler.handle(body, requestContext), headers);
+  };
+}
+
+/**
+ * Create a `node:http` request listener serving OPT methods.
+ * 
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * 
+ * createServer(createOPTRequestListener({ handler })).listen(8080);
+ * ```
+ */
+export function createOPTRequestListener(
+  options: OPTHttpOptions
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const serve = createOPTFetchHandler(options);
+
+  return (req, res) => {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    toRequest(req, controller.signal)
+      .then(serve)
+      .then(response => writeResponse(response, res))
+      .catch(error => {
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(errorResponse(null, JSON_RPC_ERRORS.INTERNAL_ERROR, String(error))));
+        } else {
+          res.destroy(error instanceof Error ? error : undefined);
+        }
+      });
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidId(id: unknown): id is string | number {
+  return typeof id === 'string' || typeof id === 'number';
+}
+
+function errorResponse(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+/**
+ * Answer a request or batch that was not routed to OPT.
+ */
+function methodNotFound(body: unknown): JsonRpcResponse | JsonRpcResponse[] | undefined {
+  const answer = (entry: unknown): JsonRpcResponse | undefined => {
+    if (!isObject(entry)) return errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request');
+    if (entry.id === undefined) return undefined;
+    const id = isValidId(entry.id) ? entry.id : null;
+    return errorResponse(id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${String(entry.method)}`);
+  };
+
+  if (!Array.isArray(body)) return answer(body);
+  // An empty batch is itself an invalid request
+  if (body.length === 0) return errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request');
+  const responses = body.map(answer).filter((r): r is JsonRpcResponse => r !== undefined);
+  return responses.length > 0 ? responses : undefined;
+}
+
+function jsonResponse(
+  body: JsonRpcResponse | JsonRpcResponse[] | undefined,
+  headers: Record<string, string> = {}
+): Response {
+  // Notifications get no JSON-RPC response
+  if (body === undefined) {
+    return new Response(null, { status: 204, headers });
+  }
+  return new Response(JSON.stringify(body), {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+function streamResponse(
+  responses: AsyncIterable<JsonRpcResponse>,
+  headers: Record<string, string>
+): Response {
+  const iterator = responses[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(formatServerSentEvent(value)));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+async function toRequest(req: IncomingMessage, signal: AbortSignal): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      for (const item of value) headers.append(name, item);
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(`http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+    signal,
+  });
+}
+
+async function writeResponse(response: Response, res: ServerResponse): Promise<void> {
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  res.on('close', () => {
+    reader.cancel().catch(() => undefined);
+  });
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    res.write(value);
+  }
+  res.end();
+}
@@ -12,19 +12,117 @@ export * from './types.js';
 // In-memory store implementation
 export { InMemoryOPTStore, generateId, timestamp } from './store.js';
 
+// JSONL store implementation
+export {
+  JsonlOPTStore,
+  type JsonlOPTStoreOptions,
+  type OPTLogEvent,
+} from './jsonl-store.js';
+
+// SQLite store implementation
+export {
+  SqliteOPTStore,
+  SQLITE_MIGRATIONS,
+  type SqliteDatabase,
+  type SqliteStatement,
+  type SqliteMigration,
+} from './sqlite-store.js';
+
 // JSON-RPC handler
 export {
   OPTHandler,
   OPTError,
-  isValidObjectiveTransition,
-  isValidPlanTransition,
   JSON_RPC_ERRORS,
   type JsonRpcRequest,
   type JsonRpcResponse,
   type JsonRpcError,
   type MethodHandler,
+  type StreamingMethodHandler,
+  type OPTHandlerOptions,
+  type OPTRequestContext,
 } from './handler.js';
 
+// State transitions
+export {
+  isValidObjectiveTransition,
+  isValidPlanTransition,
+  isValidPlanTaskTransition,
+  isAllowedTransition,
+  VALID_OBJECTIVE_TRANSITIONS,
+  VALID_PLAN_TRANSITIONS,
+  VALID_TASK_TRANSITIONS,
+  type TransitionPolicy,
+  type TransitionPolicies,
+  type TransitionTable,
+} from './transitions.js';
+
+// Change events
+export {
+  ObservableOPTStore,
+  formatServerSentEvent,
+  type OPTChangeListener,
+} from './events.js';
+
+// Client
+export {
+  OPTClient,
+  HandlerTransport,
+  HttpTransport,
+  type OPTTransport,
+  type HttpTransportOptions,
+} from './client.js';
+
+// HTTP adapters
+export {
+  createOPTFetchHandler,
+  createOPTRequestListener,
+  type FetchHandler,
+  type OPTHttpOptions,
+} from './http.js';
+
+// Status propagation
+export {
+  StatusPropagator,
+  DEFAULT_PROPAGATION_POLICY,
+  type PropagationPolicy,
+} from './propagation.js';
+
+// Dependency scheduling
+export {
+  computeSchedule,
+  scheduleObjective,
+  type Schedule,
+  type BlockedTask,
+} from './scheduler.js';
+
+// Dependency validation
+export {
+  validateTaskDependencies,
+  validatePlanDependencies,
+  validateNewPlanDependencies,
+  validateObjectiveGraph,
+  type DependencyIssue,
+  type DependencyIssueReason,
+} from './validation.js';
+
+// A2A task lifecycle
+export {
+  A2ATaskBridge,
+  A2ATaskDispatcher,
+  A2A_TASK_STATE_MAP,
+  toPlanTaskStatus,
+  type A2ATask,
+  type A2ATaskState,
+  type A2ATaskStatus,
+  type A2ATaskStatusUpdateEvent,
+  type A2ATextPart,
+  type A2AMessage,
+  type A2AMessageSendParams,
+  type A2ATransport,
+  type A2ATaskDispatcherOptions,
+  type A2ATaskBridgeOptions,
+} from './a2a.js';
+
 // Extension helpers
 export {
   A2A_EXTENSIONS_HEADER,
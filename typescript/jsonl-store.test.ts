@@ -0,0 +1,327 @@
+/**
+ * Tests for JsonlOPTStore.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonlOPTStore } from './jsonl-store.js';
+import { runOPTStoreConformance } from './conformance.js';
+
+describe('JsonlOPTStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'opt-jsonl-'));
+    file = join(dir, 'opt.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function readLines(path: string): Promise<Array<{ type: string }>> {
+    const content = await readFile(path, 'utf8');
+    return content.trim().split('\n').map(line => JSON.parse(line));
+  }
+
+  describe('open', () => {
+    it('starts empty when the log does not exist', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      expect(store.getCounts()).toEqual({ objectives: 0, plans: 0, tasks: 0 });
+    });
+  });
+
+  describe('logging', () => {
+    it('appends one event per change', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'Task' }],
+      });
+      await store.updatePlan(plan.id, { status: 'working' });
+      await store.updatePlanTask(plan.tasks![0].id, { status: 'working' });
+      await store.linkA2ATask(plan.tasks![0].id, 'a2a-1');
+
+      const events = await readLines(file);
+      expect(events.map(e => e.type)).toEqual([
+        'objective.created',
+        'plan.created',
+        'plan.updated',
+        'task.updated',
+        'task.linked',
+      ]);
+    });
+
+    it('does not log changes to missing entities', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      await store.createObjective({ name: 'Objective' });
+      await store.updateObjective('non-existent', { name: 'New' });
+      await store.updatePlan('non-existent', { name: 'New' });
+      await store.deletePlan('non-existent');
+
+      expect(await readLines(file)).toHaveLength(1);
+    });
+
+    it('logs a transaction only once it commits', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective' });
+
+      await expect(store.transaction(async tx => {
+        await tx.updateObjective(obj.id, { status: 'working' });
+        throw new Error('abort');
+      })).rejects.toThrow('abort');
+      expect(await readLines(file)).toHaveLength(1);
+
+      await store.transaction(async tx => {
+        await tx.updateObjective(obj.id, { status: 'working' });
+        await tx.createPlan({ objectiveId: obj.id, name: 'Plan' });
+      });
+      expect((await readLines(file)).map(e => e.type)).toEqual([
+        'objective.created',
+        'objective.updated',
+        'plan.created',
+      ]);
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+      expect((await reopened.getObjective(obj.id))?.plans).toHaveLength(1);
+    });
+  });
+
+  describe('replay', () => {
+    it('keeps writes made outside a rolled-back transaction', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      let entered!: () => void;
+      const inside = new Promise<void>(resolve => { entered = resolve; });
+
+      const failing = store.transaction(async tx => {
+        await tx.createObjective({ name: 'Inside' });
+        entered();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        throw new Error('abort');
+      });
+      const rolledBack = expect(failing).rejects.toThrow('abort');
+      await inside;
+      const outside = await store.createObjective({ name: 'Outside' });
+      await rolledBack;
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+      expect(await reopened.getObjective(outside.id)).not.toBeNull();
+      expect(reopened.getCounts().objectives).toBe(1);
+    });
+
+    it('drops the events of a rolled-back nested transaction', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      await store.transaction(async tx => {
+        await tx.createObjective({ name: 'Outer' });
+        await tx.transaction!(async inner => {
+          await inner.createObjective({ name: 'Nested' });
+          throw new Error('abort');
+        }).catch(() => undefined);
+      });
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+      const { objectives } = await reopened.listObjectives({});
+      expect(objectives.map(o => o.name)).toEqual(['Outer']);
+    });
+
+    it('restores objectives, plans and tasks', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective', metadata: { owner: 'me' } });
+      await store.updateObjective(obj.id, { status: 'working' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'A' }, { name: 'B', dependencies: ['task-0'] }],
+      });
+      await store.addPlanTasks({ planId: plan.id, tasks: [{ name: 'First' }], position: 0 });
+      await store.updatePlanTask(plan.tasks![0].id, { status: 'completed' });
+      await store.linkA2ATask(plan.tasks![1].id, 'a2a-1');
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+      const restored = await reopened.getObjective(obj.id);
+
+      expect(restored?.status).toBe('working');
+      expect(restored?.metadata).toEqual({ owner: 'me' });
+      const tasks = restored!.plans![0].tasks!;
+      expect(tasks.map(t => t.name)).toEqual(['First', 'A', 'B']);
+      expect(tasks[1].status).toBe('completed');
+      expect(tasks[2].a2aTaskId).toBe('a2a-1');
+      expect(tasks[2].dependencies).toEqual([tasks[1].id]);
+    });
+
+    it('restores versions', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      await store.addPlanTasks({ planId: plan.id, tasks: [{ name: 'First' }], position: 0 });
+      await store.linkA2ATask(plan.tasks![0].id, 'a2a-1');
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+
+      expect(await reopened.getPlan(plan.id)).toEqual(await store.getPlan(plan.id));
+      expect((await reopened.getPlanTask(plan.tasks![0].id))?.version).toBe(3);
+    });
+
+    it('defaults versions of entities logged without one', async () => {
+      const objective = { id: 'obj-1', name: 'Old', status: 'working', createdAt: '', updatedAt: '' };
+      await writeFile(file, JSON.stringify({ type: 'objective.created', at: '', objectiveId: 'obj-1', objective }) + '\n');
+
+      const store = await JsonlOPTStore.open({ path: file });
+
+      expect((await store.getObjective('obj-1'))?.version).toBe(1);
+      expect((await store.updateObjective('obj-1', { name: 'New' }))?.version).toBe(2);
+    });
+
+    it('replays cascading deletes', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const kept = await store.createObjective({ name: 'Kept' });
+      const gone = await store.createObjective({ name: 'Gone' });
+      await store.createPlan({ objectiveId: gone.id, name: 'Plan', tasks: [{ name: 'Task' }] });
+      const plan = await store.createPlan({ objectiveId: kept.id, name: 'Plan', tasks: [{ name: 'Task' }] });
+      await store.deleteObjective(gone.id);
+      await store.deletePlan(plan.id);
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+
+      expect(reopened.getCounts()).toEqual({ objectives: 1, plans: 0, tasks: 0 });
+    });
+
+    it('restores status history, without that of deleted plans', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective' });
+      const kept = await store.createPlan({ objectiveId: obj.id, name: 'Kept' });
+      const gone = await store.createPlan({ objectiveId: obj.id, name: 'Gone', tasks: [{ name: 'A' }] });
+      const at = '2025-01-01T00:00:00.000Z';
+      await store.addStatusHistory([
+        { entity: 'plan', id: kept.id, from: 'pending', to: 'working', timestamp: at, actor: 'alice' },
+        { entity: 'plan', id: gone.id, from: 'pending', to: 'working', timestamp: at },
+        { entity: 'task', id: gone.tasks![0].id, from: 'pending', to: 'working', timestamp: at },
+      ]);
+      await store.deletePlan(gone.id);
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+
+      expect(await reopened.getStatusHistory('plan', kept.id)).toEqual([
+        { entity: 'plan', id: kept.id, from: 'pending', to: 'working', timestamp: at, actor: 'alice' },
+      ]);
+      expect(await reopened.getStatusHistory('plan', gone.id)).toEqual([]);
+      expect(await reopened.getStatusHistory('task', gone.tasks![0].id)).toEqual([]);
+    });
+
+    it('discards a truncated last line and keeps appending cleanly', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective' });
+      await appendFile(file, '{"type":"objective.upd');
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+      expect((await reopened.getObjective(obj.id))?.name).toBe('Objective');
+
+      await reopened.updateObjective(obj.id, { name: 'Renamed' });
+      const again = await JsonlOPTStore.open({ path: file });
+      expect((await again.getObjective(obj.id))?.name).toBe('Renamed');
+    });
+
+    it('rejects corruption before the last line', async () => {
+      await writeFile(file, 'not json\n{"type":"objective.deleted","objectiveId":"x","at":""}\n');
+
+      await expect(JsonlOPTStore.open({ path: file })).rejects.toThrow('line 1');
+    });
+  });
+
+  describe('filePerObjective', () => {
+    it('writes each objective to its own log', async () => {
+      const store = await JsonlOPTStore.open({ path: dir, filePerObjective: true });
+      const a = await store.createObjective({ name: 'A' });
+      const b = await store.createObjective({ name: 'B' });
+      await store.createPlan({ objectiveId: b.id, name: 'Plan', tasks: [{ name: 'Task' }] });
+
+      expect(await readLines(join(dir, JsonlOPTStore.fileNameFor(a.id)))).toHaveLength(1);
+      expect(await readLines(join(dir, JsonlOPTStore.fileNameFor(b.id)))).toHaveLength(2);
+
+      const reopened = await JsonlOPTStore.open({ path: dir, filePerObjective: true });
+      expect(reopened.getCounts()).toEqual({ objectives: 2, plans: 1, tasks: 1 });
+    });
+
+    it('names logs after the objective ID', () => {
+      expect(JsonlOPTStore.fileNameFor('obj-123')).toBe('a2a_obj_123.jsonl');
+    });
+  });
+
+  describe('compact', () => {
+    it('rewrites the log as a single snapshot', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'Task' }] });
+      await store.updatePlan(plan.id, { status: 'working' });
+      await store.updatePlanTask(plan.tasks![0].id, { status: 'working' });
+
+      await store.compact();
+
+      expect((await readLines(file)).map(e => e.type)).toEqual(['snapshot']);
+      const reopened = await JsonlOPTStore.open({ path: file });
+      const restored = await reopened.getPlan(plan.id);
+      expect(restored?.status).toBe('working');
+      expect(restored?.tasks?.[0].status).toBe('working');
+    });
+
+    it('keeps status history in the snapshot', async () => {
+      const store = await JsonlOPTStore.open({ path: dir, filePerObjective: true });
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      const taskId = plan.tasks![0].id;
+      await store.addStatusHistory([
+        { entity: 'objective', id: obj.id, from: 'submitted', to: 'working', timestamp: '2025-01-01T00:00:00.000Z' },
+        { entity: 'plan', id: plan.id, from: 'pending', to: 'working', timestamp: '2025-01-01T00:00:00.000Z' },
+        { entity: 'task', id: taskId, from: 'pending', to: 'working', timestamp: '2025-01-01T00:00:00.000Z' },
+      ]);
+
+      await store.compact();
+
+      const reopened = await JsonlOPTStore.open({ path: dir, filePerObjective: true });
+      expect(await reopened.getStatusHistory('objective', obj.id)).toHaveLength(1);
+      expect(await reopened.getStatusHistory('plan', plan.id)).toHaveLength(1);
+      expect(await reopened.getStatusHistory('task', taskId)).toHaveLength(1);
+    });
+
+    it('keeps appending after the snapshot', async () => {
+      const store = await JsonlOPTStore.open({ path: file });
+      const obj = await store.createObjective({ name: 'Objective' });
+      await store.compact();
+      await store.updateObjective(obj.id, { name: 'Renamed' });
+
+      const reopened = await JsonlOPTStore.open({ path: file });
+      expect((await reopened.getObjective(obj.id))?.name).toBe('Renamed');
+    });
+
+    it('removes logs of deleted objectives in filePerObjective mode', async () => {
+      const store = await JsonlOPTStore.open({ path: dir, filePerObjective: true });
+      const kept = await store.createObjective({ name: 'Kept' });
+      const gone = await store.createObjective({ name: 'Gone' });
+      await store.deleteObjective(gone.id);
+
+      await store.compact();
+
+      expect(await readdir(dir)).toEqual([JsonlOPTStore.fileNameFor(kept.id)]);
+    });
+  });
+});
+
+const conformanceDirs = new Map<JsonlOPTStore, string>();
+
+runOPTStoreConformance('JsonlOPTStore', {
+  create: async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'opt-jsonl-'));
+    const store = await JsonlOPTStore.open({ path: join(dir, 'opt.jsonl') });
+    conformanceDirs.set(store, dir);
+    return store;
+  },
+  destroy: async store => {
+    await rm(conformanceDirs.get(store)!, { recursive: true, force: true });
+    conformanceDirs.delete(store);
+  },
+});
@@ -0,0 +1,505 @@
+/**
+ * Event-sourced JSONL implementation of OPTStore.
+ * 
+ * Implements the "Persistence Strategy" from the specification: every
+ * change is appended to a JSONL log as one event, and state is rebuilt by
+ * replaying the log on startup. Logs can be compacted into a snapshot.
+ */
+
+import { appendFile, mkdir, readFile, readdir, rename, truncate, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  OPTStore,
+  Objective,
+  Plan,
+  PlanTask,
+  CreateObjectiveRequest,
+  CreatePlanRequest,
+  AddPlanTasksRequest,
+  StatusHistoryEntry,
+} from './types.js';
+import { InMemoryOPTStore, timestamp } from './store.js';
+
+// =============================================================================
+// Events
+// =============================================================================
+
+/**
+ * One line of the log. Every event carries the resulting state of what it
+ * changed, so replay never has to re-run store logic.
+ */
+export type OPTLogEvent = { at: string; objectiveId: string } & (
+  | { type: 'objective.created'; objective: Objective }
+  | { type: 'objective.updated'; objective: Objective }
+  | { type: 'objective.deleted' }
+  | { type: 'plan.created'; plan: Plan; tasks: PlanTask[] }
+  | { type: 'plan.updated'; plan: Plan }
+  | { type: 'plan.deleted'; planId: string }
+  | { type: 'plan.tasksAdded'; planId: string; tasks: PlanTask[]; plan?: Plan }  // All tasks of the plan
+  | { type: 'task.updated'; task: PlanTask }
+  | { type: 'task.linked'; taskId: string; a2aTaskId: string }
+  | { type: 'history.added'; entries: StatusHistoryEntry[] }
+  | { type: 'snapshot'; objectives: Objective[]; plans: Plan[]; tasks: PlanTask[]; history?: StatusHistoryEntry[] }
+);
+
+/** Distributes Omit over the event union. */
+type EventBody<E> = E extends unknown ? Omit<E, 'at' | 'objectiveId'> : never;
+
+// =============================================================================
+// Store
+// =============================================================================
+
+export interface JsonlOPTStoreOptions {
+  /** Log file, or a directory of logs when `filePerObjective` is set */
+  path: string;
+  /** Keep one log per objective (e.g. `a2a_obj_123.jsonl`) */
+  filePerObjective?: boolean;
+}
+
+/**
+ * JSONL-backed OPTStore.
+ * 
+ * Reads are served from memory; every write is appended to the log before
+ * the call resolves. A truncated last line (from a crash mid-write) is
+ * discarded on load.
+ * 
+ * @example
+ * ```typescript
+ * const store = await JsonlOPTStore.open({
+ *   path: '~/.openclaw/agents/main/sessions',
+ *   filePerObjective: true,
+ * });
+ * const handler = new OPTHandler(store);
+ * ```
+ */
+export class JsonlOPTStore extends InMemoryOPTStore {
+  private options: JsonlOPTStoreOptions;
+  private writeQueue: Promise<void> = Promise.resolve();
+  /** Log lines held back until the current transaction commits */
+  private pending: Array<{ file: string; line: string }> | null = null;
+
+  private constructor(options: JsonlOPTStoreOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Open a store, replaying any existing log(s).
+   */
+  static async open(options: JsonlOPTStoreOptions): Promise<JsonlOPTStore> {
+    const store = new JsonlOPTStore(options);
+    await store.load();
+    return store;
+  }
+
+  /**
+   * Log file name for an objective in `filePerObjective` mode.
+   */
+  static fileNameFor(objectiveId: string): string {
+    return `a2a_${objectiveId.replace(/[^A-Za-z0-9]/g, '_')}.jsonl`;
+  }
+
+  // =========================================================================
+  // Objectives
+  // =========================================================================
+
+  async createObjective(data: CreateObjectiveRequest): Promise<Objective> {
+    return this.exclusive(async () => {
+      const objective = await super.createObjective(data);
+      await this.append(objective.id, {
+        type: 'objective.created',
+        objective: this.objectives.get(objective.id)!,
+      });
+      return objective;
+    });
+  }
+
+  async updateObjective(id: string, updates: Partial<Objective>): Promise<Objective | null> {
+    return this.exclusive(async () => {
+      const objective = await super.updateObjective(id, updates);
+      if (objective) {
+        await this.append(id, { type: 'objective.updated', objective: this.objectives.get(id)! });
+      }
+      return objective;
+    });
+  }
+
+  async deleteObjective(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const deleted = await super.deleteObjective(id);
+      if (deleted) {
+        await this.append(id, { type: 'objective.deleted' });
+      }
+      return deleted;
+    });
+  }
+
+  // =========================================================================
+  // Plans
+  // =========================================================================
+
+  async createPlan(data: CreatePlanRequest): Promise<Plan> {
+    return this.exclusive(async () => {
+      const plan = await super.createPlan(data);
+      await this.append(plan.objectiveId, {
+        type: 'plan.created',
+        plan: this.plans.get(plan.id)!,
+        tasks: await this.getTasksForPlan(plan.id),
+      });
+      return plan;
+    });
+  }
+
+  async updatePlan(id: string, updates: Partial<Plan>): Promise<Plan | null> {
+    return this.exclusive(async () => {
+      const plan = await super.updatePlan(id, updates);
+      if (plan) {
+        await this.append(plan.objectiveId, { type: 'plan.updated', plan: this.plans.get(id)! });
+      }
+      return plan;
+    });
+  }
+
+  async deletePlan(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const plan = this.plans.get(id);
+      const deleted = await super.deletePlan(id);
+      if (plan && deleted) {
+        await this.append(plan.objectiveId, { type: 'plan.deleted', planId: id });
+      }
+      return deleted;
+    });
+  }
+
+  // =========================================================================
+  // Tasks
+  // =========================================================================
+
+  async addPlanTasks(data: AddPlanTasksRequest): Promise<PlanTask[] | null> {
+    return this.exclusive(async () => {
+      const added = await super.addPlanTasks(data);
+      if (added) {
+        const plan = this.plans.get(data.planId)!;
+        await this.append(plan.objectiveId, {
+          type: 'plan.tasksAdded',
+          planId: data.planId,
+          tasks: await this.getTasksForPlan(data.planId),
+          plan,
+        });
+      }
+      return added;
+    });
+  }
+
+  async updatePlanTask(id: string, updates: Partial<PlanTask>): Promise<PlanTask | null> {
+    return this.exclusive(async () => {
+      const task = await super.updatePlanTask(id, updates);
+      if (task) {
+        await this.append(task.objectiveId, { type: 'task.updated', task });
+      }
+      return task;
+    });
+  }
+
+  async linkA2ATask(planTaskId: string, a2aTaskId: string): Promise<void> {
+    return this.exclusive(async () => {
+      await super.linkA2ATask(planTaskId, a2aTaskId);
+      await this.append(this.tasks.get(planTaskId)!.objectiveId, {
+        type: 'task.linked',
+        taskId: planTaskId,
+        a2aTaskId,
+      });
+    });
+  }
+
+  // =========================================================================
+  // Status History
+  // =========================================================================
+
+  async addStatusHistory(entries: StatusHistoryEntry[]): Promise<void> {
+    return this.exclusive(async () => {
+      await super.addStatusHistory(entries);
+
+      // One event per objective, so each lands in its objective's log
+      const byObjective = new Map<string, StatusHistoryEntry[]>();
+      for (const entry of entries) {
+        const objectiveId = this.objectiveIdOf(entry);
+        if (!objectiveId) continue;
+        byObjective.set(objectiveId, [...(byObjective.get(objectiveId) ?? []), entry]);
+      }
+      for (const [objectiveId, logged] of byObjective) {
+        await this.append(objectiveId, { type: 'history.added', entries: logged });
+      }
+    });
+  }
+
+  // =========================================================================
+  // Transactions
+  // =========================================================================
+
+  /**
+   * Run `fn` atomically. Its events are appended to the log only once it
+   * succeeds, so a rolled-back transaction leaves no trace on disk. A
+   * nested call adds its events to the outer transaction's.
+   */
+  async transaction<T>(fn: (store: OPTStore) => Promise<T>): Promise<T> {
+    return super.transaction(async store => {
+      const outer = this.pending;
+      if (outer) {
+        const mark = outer.length;
+        try {
+          return await fn(store);
+        } catch (error) {
+          outer.length = mark;
+          throw error;
+        }
+      }
+      this.pending = [];
+      try {
+        const result = await fn(store);
+        const lines = this.pending;
+        this.pending = null;
+        await this.flush(lines);
+        return result;
+      } finally {
+        this.pending = null;
+      }
+    });
+  }
+
+  // =========================================================================
+  // Persistence
+  // =========================================================================
+
+  /**
+   * Rewrite the log(s) as a single snapshot of the current state.
+   * 
+   * In `filePerObjective` mode, logs of deleted objectives are removed.
+   */
+  async compact(): Promise<void> {
+    return this.exclusive(async () => {
+      await this.enqueue(async () => {
+        if (!this.options.filePerObjective) {
+          await this.writeSnapshot(this.options.path, '', Array.from(this.objectives.keys()));
+          return;
+        }
+
+        const live = new Set<string>();
+        for (const objectiveId of this.objectives.keys()) {
+          const file = join(this.options.path, JsonlOPTStore.fileNameFor(objectiveId));
+          await this.writeSnapshot(file, objectiveId, [objectiveId]);
+          live.add(file);
+        }
+        for (const file of await this.logFiles()) {
+          if (!live.has(file)) await unlink(file);
+        }
+      });
+    });
+  }
+
+  private async writeSnapshot(file: string, objectiveId: string, objectiveIds: string[]): Promise<void> {
+    const ids = new Set(objectiveIds);
+    const event: OPTLogEvent = {
+      type: 'snapshot',
+      at: timestamp(),
+      objectiveId,
+      objectives: objectiveIds.map(id => this.objectives.get(id)!),
+      plans: Array.from(this.plans.values()).filter(p => ids.has(p.objectiveId)).map(stripTasks),
+      tasks: Array.from(this.tasks.values()).filter(t => ids.has(t.objectiveId)),
+      history: Array.from(this.history.values()).flat().filter(entry => ids.has(this.objectiveIdOf(entry) ?? '')),
+    };
+    const tmp = `${file}.tmp`;
+    await writeFile(tmp, JSON.stringify(event) + '\n');
+    await rename(tmp, file);
+  }
+
+  private async append(objectiveId: string, body: EventBody<OPTLogEvent>): Promise<void> {
+    const event = { at: timestamp(), objectiveId, ...body } as OPTLogEvent;
+    if ('plan' in event && event.plan) event.plan = stripTasks(event.plan);
+
+    const file = this.options.filePerObjective
+      ? join(this.options.path, JsonlOPTStore.fileNameFor(objectiveId))
+      : this.options.path;
+    const line = JSON.stringify(event) + '\n';
+    if (this.pending) {
+      this.pending.push({ file, line });
+      return;
+    }
+    await this.enqueue(() => appendFile(file, line));
+  }
+
+  /**
+   * Append the lines of a committed transaction, one write per file.
+   */
+  private async flush(lines: Array<{ file: string; line: string }>): Promise<void> {
+    const byFile = new Map<string, string>();
+    for (const { file, line } of lines) {
+      byFile.set(file, (byFile.get(file) ?? '') + line);
+    }
+    await this.enqueue(async () => {
+      for (const [file, content] of byFile) {
+        await appendFile(file, content);
+      }
+    });
+  }
+
+  /**
+   * Run a file operation after all previously queued ones.
+   */
+  private enqueue(fn: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(fn);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async logFiles(): Promise<string[]> {
+    const names = await readdir(this.options.path);
+    return names
+      .filter(name => name.startsWith('a2a_') && name.endsWith('.jsonl'))
+      .map(name => join(this.options.path, name));
+  }
+
+  private async load(): Promise<void> {
+    if (this.options.filePerObjective) {
+      await mkdir(this.options.path, { recursive: true });
+      for (const file of await this.logFiles()) {
+        await this.replayFile(file);
+      }
+    } else {
+      await this.replayFile(this.options.path);
+    }
+  }
+
+  private async replayFile(file: string): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    // A complete last line that lost its newline would be glued to the next append
+    if (content && !content.endsWith('\n')) {
+      try {
+        JSON.parse(content.slice(content.lastIndexOf('\n') + 1));
+        await appendFile(file, '\n');
+      } catch {
+        // Partial write, handled below
+      }
+    }
+
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+
+      let event: OPTLogEvent;
+      try {
+        event = JSON.parse(lines[i]);
+      } catch {
+        // Only the last line can be a partial write; drop it so later
+        // appends start on a clean line
+        if (lines.slice(i + 1).every(line => !line.trim())) {
+          const validBytes = Buffer.byteLength(lines.slice(0, i).map(line => line + '\n').join(''));
+          await truncate(file, validBytes);
+          return;
+        }
+        throw new Error(`Corrupt OPT log ${file} at line ${i + 1}`);
+      }
+      this.apply(event);
+    }
+  }
+
+  private apply(event: OPTLogEvent): void {
+    withVersions(event);
+    switch (event.type) {
+      case 'objective.created':
+      case 'objective.updated':
+        this.objectives.set(event.objective.id, event.objective);
+        break;
+      case 'objective.deleted':
+        this.objectives.delete(event.objectiveId);
+        this.history.delete(`objective:${event.objectiveId}`);
+        for (const plan of Array.from(this.plans.values())) {
+          if (plan.objectiveId === event.objectiveId) this.removePlan(plan.id);
+        }
+        break;
+      case 'plan.created':
+        this.plans.set(event.plan.id, event.plan);
+        for (const task of event.tasks) this.tasks.set(task.id, task);
+        break;
+      case 'plan.updated':
+        this.plans.set(event.plan.id, event.plan);
+        break;
+      case 'plan.deleted':
+        this.removePlan(event.planId);
+        break;
+      case 'plan.tasksAdded':
+        if (event.plan) this.plans.set(event.plan.id, event.plan);
+        for (const task of event.tasks) this.tasks.set(task.id, task);
+        break;
+      case 'task.updated':
+        this.tasks.set(event.task.id, event.task);
+        break;
+      case 'task.linked': {
+        const task = this.tasks.get(event.taskId);
+        if (task) this.tasks.set(task.id, { ...task, a2aTaskId: event.a2aTaskId, version: task.version + 1 });
+        break;
+      }
+      case 'history.added':
+        this.appendHistory(event.entries);
+        break;
+      case 'snapshot':
+        for (const objective of event.objectives) this.objectives.set(objective.id, objective);
+        for (const plan of event.plans) this.plans.set(plan.id, plan);
+        for (const task of event.tasks) this.tasks.set(task.id, task);
+        this.appendHistory(event.history ?? []);
+        break;
+    }
+  }
+
+  private removePlan(planId: string): void {
+    this.plans.delete(planId);
+    this.history.delete(`plan:${planId}`);
+    for (const task of Array.from(this.tasks.values())) {
+      if (task.planId !== planId) continue;
+      this.tasks.delete(task.id);
+      this.history.delete(`task:${task.id}`);
+    }
+  }
+
+  /** The objective whose log holds a history entry */
+  private objectiveIdOf(entry: StatusHistoryEntry): string | undefined {
+    switch (entry.entity) {
+      case 'objective':
+        return entry.id;
+      case 'plan':
+        return this.plans.get(entry.id)?.objectiveId;
+      case 'task':
+        return this.tasks.get(entry.id)?.objectiveId;
+    }
+  }
+}
+
+/**
+ * Default `version` to 1 for entities logged before versions existed.
+ */
+function withVersions(event: OPTLogEvent): void {
+  const entities: Array<{ version: number }> = [];
+  if ('objective' in event) entities.push(event.objective);
+  if ('plan' in event && event.plan) entities.push(event.plan);
+  if ('task' in event) entities.push(event.task);
+  if ('tasks' in event) entities.push(...event.tasks);
+  if (event.type === 'snapshot') entities.push(...event.objectives, ...event.plans);
+  for (const entity of entities) {
+    entity.version ??= 1;
+  }
+}
+
+/**
+ * Plans are logged without their tasks; tasks have events of their own.
+ */
+function stripTasks(plan: Plan): Plan {
+  const { tasks: _tasks, ...rest } = plan;
+  return rest;
+}
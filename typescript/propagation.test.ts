@@ -0,0 +1,266 @@
+/**
+ * Tests for status propagation.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  StatusPropagator,
+  DEFAULT_PROPAGATION_POLICY,
+  PropagationPolicy,
+} from './propagation.js';
+import { InMemoryOPTStore } from './store.js';
+import { Objective, Plan, PlanTaskStatus } from './types.js';
+
+describe('StatusPropagator', () => {
+  let store: InMemoryOPTStore;
+  let propagator: StatusPropagator;
+  let objective: Objective;
+  let plan: Plan;
+
+  beforeEach(async () => {
+    store = new InMemoryOPTStore();
+    propagator = new StatusPropagator(store);
+    objective = await store.createObjective({ name: 'Objective' });
+    await store.updateObjective(objective.id, { status: 'working' });
+    plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [{ name: 'Task 0' }, { name: 'Task 1' }],
+    });
+    await store.updatePlan(plan.id, { status: 'working' });
+  });
+
+  async function setTaskStatus(index: number, status: PlanTaskStatus) {
+    const task = await store.updatePlanTask(plan.tasks![index].id, { status });
+    return propagator.propagateFromTask(task!);
+  }
+
+  describe('propagateFromTask', () => {
+    it('does nothing while tasks are still in progress', async () => {
+      const transitions = await setTaskStatus(0, 'completed');
+
+      expect(transitions).toEqual([]);
+      expect((await store.getPlan(plan.id))?.status).toBe('working');
+    });
+
+    it('completes plan and objective when all tasks complete', async () => {
+      await setTaskStatus(0, 'completed');
+      const transitions = await setTaskStatus(1, 'completed');
+
+      expect(transitions).toEqual([
+        { entity: 'plan', id: plan.id, from: 'working', to: 'completed' },
+        { entity: 'objective', id: objective.id, from: 'working', to: 'completed' },
+      ]);
+      expect((await store.getObjective(objective.id))?.status).toBe('completed');
+    });
+
+    it('ignores soft-deleted plans when completing the objective', async () => {
+      const deleted = await store.createPlan({ objectiveId: objective.id, name: 'Deleted' });
+      await store.updatePlan(deleted.id, { deletedAt: '2026-02-15T00:00:00Z' });
+
+      await setTaskStatus(0, 'completed');
+      await setTaskStatus(1, 'completed');
+
+      expect((await store.getObjective(objective.id))?.status).toBe('completed');
+    });
+
+    it('blocks plan and objective when a task needs input', async () => {
+      const transitions = await setTaskStatus(0, 'input-required');
+
+      expect(transitions).toEqual([
+        { entity: 'plan', id: plan.id, from: 'working', to: 'blocked' },
+        { entity: 'objective', id: objective.id, from: 'working', to: 'blocked' },
+      ]);
+    });
+
+    it('unblocks when the task resumes', async () => {
+      await setTaskStatus(0, 'input-required');
+      const transitions = await setTaskStatus(0, 'working');
+
+      expect(transitions).toEqual([
+        { entity: 'plan', id: plan.id, from: 'blocked', to: 'working' },
+        { entity: 'objective', id: objective.id, from: 'blocked', to: 'working' },
+      ]);
+    });
+
+    it('fails plan and objective when a task fails', async () => {
+      const transitions = await setTaskStatus(1, 'failed');
+
+      expect(transitions.map(t => t.to)).toEqual(['failed', 'failed']);
+    });
+
+    it('does not block the objective while another plan is working', async () => {
+      const other = await store.createPlan({ objectiveId: objective.id, name: 'Other' });
+      await store.updatePlan(other.id, { status: 'working' });
+
+      const transitions = await setTaskStatus(0, 'auth-required');
+
+      expect(transitions).toEqual([
+        { entity: 'plan', id: plan.id, from: 'working', to: 'blocked' },
+      ]);
+    });
+
+    it('moves a pending plan through working', async () => {
+      const pending = await store.createPlan({
+        objectiveId: objective.id,
+        name: 'Pending',
+        tasks: [{ name: 'Only task' }],
+      });
+
+      // pending → completed is not a valid plan transition on its own
+      const task = await store.updatePlanTask(pending.tasks![0].id, { status: 'completed' });
+      const transitions = await propagator.propagateFromTask(task!);
+
+      expect(transitions).toEqual([
+        { entity: 'plan', id: pending.id, from: 'pending', to: 'working' },
+        { entity: 'plan', id: pending.id, from: 'working', to: 'completed' },
+      ]);
+      expect((await store.getPlan(pending.id))?.status).toBe('completed');
+    });
+
+    it('rolls a single task up from a pending plan and a new objective', async () => {
+      const fresh = await store.createObjective({ name: 'Fresh' });
+      const pending = await store.createPlan({
+        objectiveId: fresh.id,
+        name: 'Pending',
+        tasks: [{ name: 'Only task' }],
+      });
+
+      const task = await store.updatePlanTask(pending.tasks![0].id, { status: 'completed' });
+      const transitions = await propagator.propagateFromTask(task!);
+
+      expect(transitions.map(t => `${t.entity}:${t.from}→${t.to}`)).toEqual([
+        'plan:pending→working',
+        'plan:working→completed',
+        'objective:submitted→working',
+        'objective:working→completed',
+      ]);
+      expect((await store.getObjective(fresh.id))?.status).toBe('completed');
+    });
+
+    it('fails a pending plan whose task fails', async () => {
+      const pending = await store.createPlan({
+        objectiveId: objective.id,
+        name: 'Pending',
+        tasks: [{ name: 'Only task' }],
+      });
+
+      const task = await store.updatePlanTask(pending.tasks![0].id, { status: 'failed' });
+      await propagator.propagateFromTask(task!);
+
+      expect((await store.getPlan(pending.id))?.status).toBe('failed');
+    });
+
+    it('skips transitions the state machine does not allow', async () => {
+      const skipped = await store.createPlan({
+        objectiveId: objective.id,
+        name: 'Skipped',
+        tasks: [{ name: 'Only task' }],
+      });
+      await store.updatePlan(skipped.id, { status: 'skipped' });
+
+      // skipped is terminal, even by way of working
+      const task = await store.updatePlanTask(skipped.tasks![0].id, { status: 'completed' });
+      const transitions = await propagator.propagateFromTask(task!);
+
+      expect(transitions).toEqual([]);
+      expect((await store.getPlan(skipped.id))?.status).toBe('skipped');
+    });
+  });
+
+  describe('propagateFromPlan', () => {
+    it('completes the objective when remaining plans are skipped', async () => {
+      const other = await store.createPlan({ objectiveId: objective.id, name: 'Other' });
+      await store.updatePlan(other.id, { status: 'skipped' });
+      const updated = await store.updatePlan(plan.id, { status: 'completed' });
+
+      const transitions = await propagator.propagateFromPlan(updated!);
+
+      expect(transitions).toEqual([
+        { entity: 'objective', id: objective.id, from: 'working', to: 'completed' },
+      ]);
+    });
+
+    it('does not touch the plan itself', async () => {
+      await store.updatePlanTask(plan.tasks![0].id, { status: 'completed' });
+      await store.updatePlanTask(plan.tasks![1].id, { status: 'completed' });
+      const updated = await store.updatePlan(plan.id, { status: 'blocked' });
+
+      await propagator.propagateFromPlan(updated!);
+
+      expect((await store.getPlan(plan.id))?.status).toBe('blocked');
+    });
+  });
+
+  describe('custom policy', () => {
+    it('fails the plan only when a critical task fails', async () => {
+      const criticalOnly: PropagationPolicy = {
+        ...DEFAULT_PROPAGATION_POLICY,
+        planStatus(p, tasks) {
+          const failed = tasks.filter(t => t.status === 'failed');
+          if (failed.some(t => t.metadata?.critical === true)) return 'failed';
+          return DEFAULT_PROPAGATION_POLICY.planStatus(
+            p,
+            tasks.filter(t => !failed.includes(t))
+          );
+        },
+      };
+      propagator = new StatusPropagator(store, criticalOnly);
+
+      await store.updatePlanTask(plan.tasks![1].id, { metadata: { critical: true } });
+
+      let transitions = await setTaskStatus(0, 'failed');
+      expect(transitions).toEqual([]);
+
+      transitions = await setTaskStatus(1, 'failed');
+      expect(transitions[0]).toEqual({ entity: 'plan', id: plan.id, from: 'working', to: 'failed' });
+    });
+  });
+});
+
+describe('DEFAULT_PROPAGATION_POLICY', () => {
+  const plan: Plan = {
+    id: 'plan-1',
+    objectiveId: 'obj-1',
+    name: 'Plan',
+    status: 'working',
+    version: 1,
+    createdAt: '2026-02-15T00:00:00Z',
+    updatedAt: '2026-02-15T00:00:00Z',
+  };
+
+  it('leaves plans without tasks unchanged', () => {
+    expect(DEFAULT_PROPAGATION_POLICY.planStatus(plan, [])).toBeNull();
+  });
+
+  it('leaves objectives with only skipped plans unchanged', () => {
+    const objective: Objective = {
+      id: 'obj-1',
+      name: 'Objective',
+      status: 'working',
+      version: 1,
+      createdAt: '2026-02-15T00:00:00Z',
+      updatedAt: '2026-02-15T00:00:00Z',
+    };
+    const skipped: Plan = { ...plan, status: 'skipped' };
+    expect(DEFAULT_PROPAGATION_POLICY.objectiveStatus(objective, [skipped])).toBeNull();
+  });
+
+  it('leaves paused plans and objectives unchanged', () => {
+    const paused = { 'opt/v1/paused': true };
+    const objective: Objective = {
+      id: 'obj-1',
+      name: 'Objective',
+      status: 'planning',
+      metadata: paused,
+      version: 1,
+      createdAt: '2026-02-15T00:00:00Z',
+      updatedAt: '2026-02-15T00:00:00Z',
+    };
+    const blocked: Plan = { ...plan, status: 'blocked', metadata: paused };
+    const task = { id: 'task-1', planId: plan.id, objectiveId: 'obj-1', name: 'Task', taskIndex: 0, status: 'completed' as const, version: 1 };
+
+    expect(DEFAULT_PROPAGATION_POLICY.planStatus(blocked, [task])).toBeNull();
+    expect(DEFAULT_PROPAGATION_POLICY.objectiveStatus(objective, [{ ...plan, status: 'completed' }])).toBeNull();
+  });
+});
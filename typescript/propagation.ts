@@ -0,0 +1,218 @@
+/**
+ * Status propagation for OPT.
+ * 
+ * Rolls status changes up the hierarchy: PlanTask → Plan → Objective.
+ * The default policy follows DESIGN.md ("Status Propagation"); deployments
+ * can supply their own policy to change when plans and objectives move.
+ */
+
+import {
+  OPTStore,
+  OPT_METADATA,
+  Objective,
+  ObjectiveStatus,
+  Plan,
+  PlanStatus,
+  PlanTask,
+  StatusTransition,
+} from './types.js';
+import {
+  TransitionPolicies,
+  TransitionPolicy,
+  isAllowedTransition,
+  resolveTransitionPolicies,
+  transitionPath,
+} from './transitions.js';
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+/**
+ * Decides the status a parent should have, given its children.
+ * 
+ * Return null to leave the parent unchanged. A parent that cannot move to
+ * the proposed status directly goes by way of `working` (e.g. a pending plan
+ * whose only task completed); proposals the transition policies allow
+ * neither way are ignored.
+ */
+export interface PropagationPolicy {
+  /** Status a plan should have given its tasks. */
+  planStatus(plan: Plan, tasks: PlanTask[]): PlanStatus | null;
+  /** Status an objective should have given its plans. */
+  objectiveStatus(objective: Objective, plans: Plan[]): ObjectiveStatus | null;
+}
+
+/** Task statuses that mean the task is waiting on someone else. */
+const WAITING_TASK_STATUSES = ['input-required', 'auth-required', 'blocked'];
+
+/** Task statuses that mean the task did not succeed. */
+const FAILED_TASK_STATUSES = ['failed', 'rejected'];
+
+function isPaused(entity: Objective | Plan): boolean {
+  return entity.metadata?.[OPT_METADATA.PAUSED] === true;
+}
+
+/**
+ * Default propagation policy, as described in DESIGN.md:
+ * 
+ * - Any task failed → plan failed; any plan failed → objective failed
+ * - All tasks completed → plan completed; all plans completed (skipped plans
+ *   aside) → objective completed
+ * - Any task waiting on input → plan blocked; all unfinished plans blocked →
+ *   objective blocked
+ * - Otherwise, once work has started → working
+ * 
+ * Objectives and plans paused by objectives/replan are left as they are
+ * until a status update resumes them.
+ */
+export const DEFAULT_PROPAGATION_POLICY: PropagationPolicy = {
+  planStatus(plan, tasks) {
+    if (tasks.length === 0 || isPaused(plan)) return null;
+
+    if (tasks.some(t => FAILED_TASK_STATUSES.includes(t.status ?? ''))) {
+      return 'failed';
+    }
+    if (tasks.every(t => t.status === 'completed' || t.status === 'canceled')) {
+      return 'completed';
+    }
+    if (tasks.some(t => WAITING_TASK_STATUSES.includes(t.status ?? ''))) {
+      return 'blocked';
+    }
+    if (tasks.some(t => t.status === 'working' || t.status === 'completed')) {
+      return 'working';
+    }
+    return null;
+  },
+
+  objectiveStatus(objective, plans) {
+    const active = plans.filter(p => p.status !== 'skipped');
+    if (active.length === 0 || isPaused(objective)) return null;
+
+    if (active.some(p => p.status === 'failed')) {
+      return 'failed';
+    }
+    const unfinished = active.filter(p => p.status !== 'completed');
+    if (unfinished.length === 0) {
+      return 'completed';
+    }
+    if (unfinished.every(p => p.status === 'blocked')) {
+      return 'blocked';
+    }
+    if (active.some(p => p.status === 'working' || p.status === 'completed')) {
+      return 'working';
+    }
+    return null;
+  },
+};
+
+// =============================================================================
+// Propagator
+// =============================================================================
+
+/**
+ * Applies a PropagationPolicy to the store after a status change.
+ * 
+ * @example
+ * ```typescript
+ * const propagator = new StatusPropagator(store);
+ * const task = await store.updatePlanTask(taskId, { status: 'completed' });
+ * const transitions = await propagator.propagateFromTask(task);
+ * // [{ entity: 'plan', id: 'plan-1', from: 'working', to: 'completed' }, ...]
+ * ```
+ */
+export class StatusPropagator {
+  private store: OPTStore;
+  private policy: PropagationPolicy;
+  private transitions: Required<TransitionPolicies>;
+
+  constructor(
+    store: OPTStore,
+    policy: PropagationPolicy = DEFAULT_PROPAGATION_POLICY,
+    transitions?: TransitionPolicies
+  ) {
+    this.store = store;
+    this.policy = policy;
+    this.transitions = resolveTransitionPolicies(transitions);
+  }
+
+  /**
+   * Re-evaluate a task's plan, then its objective.
+   * 
+   * @returns The transitions applied, innermost first
+   */
+  async propagateFromTask(task: PlanTask): Promise<StatusTransition[]> {
+    const plan = await this.store.getPlan(task.planId);
+    if (!plan) return [];
+
+    const transitions: StatusTransition[] = [];
+    const target = this.policy.planStatus(plan, plan.tasks ?? []);
+    const path = target && transitionPath(
+      plan.status,
+      target,
+      'working',
+      (from, to) => allowsPropagation(this.transitions.plan, { ...plan, status: from }, from, to, { status: to })
+    );
+    let from = plan.status;
+    for (const to of path ?? []) {
+      await this.store.updatePlan(plan.id, { status: to });
+      transitions.push({ entity: 'plan', id: plan.id, from, to });
+      from = to;
+    }
+
+    transitions.push(...await this.propagateToObjective(plan.objectiveId));
+    return transitions;
+  }
+
+  /**
+   * Re-evaluate a plan's objective.
+   * 
+   * @returns The transitions applied
+   */
+  async propagateFromPlan(plan: Plan): Promise<StatusTransition[]> {
+    return this.propagateToObjective(plan.objectiveId);
+  }
+
+  private async propagateToObjective(objectiveId: string): Promise<StatusTransition[]> {
+    const objective = await this.store.getObjective(objectiveId);
+    if (!objective) return [];
+
+    // Soft-deleted plans no longer count towards the objective
+    const plans = (objective.plans ?? []).filter(plan => !plan.deletedAt);
+    const target = this.policy.objectiveStatus(objective, plans);
+    const path = target && transitionPath(
+      objective.status,
+      target,
+      'working',
+      (from, to) => allowsPropagation(this.transitions.objective, { ...objective, status: from }, from, to, { status: to })
+    );
+
+    const transitions: StatusTransition[] = [];
+    let from = objective.status;
+    for (const to of path ?? []) {
+      await this.store.updateObjective(objective.id, { status: to });
+      transitions.push({ entity: 'objective', id: objective.id, from, to });
+      from = to;
+    }
+    return transitions;
+  }
+}
+
+/**
+ * Whether a policy allows a propagated status change. A guard that throws
+ * refuses it like one that returns false, so a parent that may not move
+ * never fails the change that triggered propagation.
+ */
+function allowsPropagation<S extends string, E>(
+  policy: TransitionPolicy<S, E>,
+  entity: E,
+  from: S,
+  to: S,
+  update: Partial<E>
+): boolean {
+  try {
+    return isAllowedTransition(policy, entity, from, to, update);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Tests for dependency scheduling.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { computeSchedule, scheduleObjective } from './scheduler.js';
+import { InMemoryOPTStore } from './store.js';
+import { Objective, PlanTask } from './types.js';
+
+describe('computeSchedule', () => {
+  let store: InMemoryOPTStore;
+  let objective: Objective;
+
+  beforeEach(async () => {
+    store = new InMemoryOPTStore();
+    objective = await store.createObjective({ name: 'Objective' });
+  });
+
+  async function load(): Promise<Objective> {
+    return (await store.getObjective(objective.id))!;
+  }
+
+  const names = (tasks: PlanTask[]) => tasks.map(t => t.name);
+
+  it('returns an empty schedule for an objective without plans', async () => {
+    expect(computeSchedule(await load())).toEqual({
+      ready: [],
+      blocked: [],
+      waves: [],
+      unschedulable: [],
+    });
+  });
+
+  it('groups independent and dependent tasks into waves', async () => {
+    await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [
+        { name: 'A' },
+        { name: 'B' },
+        { name: 'C', dependencies: ['task-0', 'task-1'] },
+        { name: 'D', dependencies: ['task-2'] },
+      ],
+    });
+
+    const schedule = computeSchedule(await load());
+
+    expect(names(schedule.ready)).toEqual(['A', 'B']);
+    expect(schedule.waves.map(names)).toEqual([['A', 'B'], ['C'], ['D']]);
+    expect(schedule.unschedulable).toEqual([]);
+  });
+
+  it('reports what blocked tasks are waiting on', async () => {
+    const plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [{ name: 'A' }, { name: 'B', dependencies: ['task-0'] }],
+    });
+
+    const schedule = computeSchedule(await load());
+
+    expect(schedule.blocked).toHaveLength(1);
+    expect(schedule.blocked[0].task.name).toBe('B');
+    expect(schedule.blocked[0].waitingOnTasks).toEqual([plan.tasks![0].id]);
+    expect(schedule.blocked[0].waitingOnPlans).toEqual([]);
+  });
+
+  it('releases tasks once their dependencies complete', async () => {
+    const plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [{ name: 'A' }, { name: 'B', dependencies: ['task-0'] }],
+    });
+    await store.updatePlanTask(plan.tasks![0].id, { status: 'completed' });
+
+    const schedule = computeSchedule(await load());
+
+    expect(names(schedule.ready)).toEqual(['B']);
+    expect(schedule.waves.map(names)).toEqual([['B']]);
+  });
+
+  it('keeps in-progress tasks out of the ready set but in the waves', async () => {
+    const plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [{ name: 'A' }, { name: 'B', dependencies: ['task-0'] }],
+    });
+    await store.updatePlanTask(plan.tasks![0].id, { status: 'working' });
+
+    const schedule = computeSchedule(await load());
+
+    expect(schedule.ready).toEqual([]);
+    expect(schedule.waves.map(names)).toEqual([['A'], ['B']]);
+  });
+
+  it('waits on the parent plan dependencies', async () => {
+    const research = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Research',
+      tasks: [{ name: 'Search' }, { name: 'Summarize', dependencies: ['task-0'] }],
+    });
+    await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Writing',
+      tasks: [{ name: 'Draft' }],
+      dependencies: [research.id],
+    });
+
+    const schedule = computeSchedule(await load());
+
+    expect(names(schedule.ready)).toEqual(['Search']);
+    expect(schedule.blocked.find(b => b.task.name === 'Draft')?.waitingOnPlans)
+      .toEqual([research.id]);
+    expect(schedule.waves.map(names)).toEqual([['Search'], ['Summarize'], ['Draft']]);
+  });
+
+  it('treats a completed plan dependency as met', async () => {
+    const research = await store.createPlan({ objectiveId: objective.id, name: 'Research' });
+    await store.updatePlan(research.id, { status: 'completed' });
+    await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Writing',
+      tasks: [{ name: 'Draft' }],
+      dependencies: [research.id],
+    });
+
+    const schedule = computeSchedule(await load());
+
+    expect(names(schedule.ready)).toEqual(['Draft']);
+  });
+
+  it('ignores a dependency on a soft-deleted plan', async () => {
+    const research = await store.createPlan({ objectiveId: objective.id, name: 'Research' });
+    await store.updatePlan(research.id, { deletedAt: '2025-01-01T00:00:00.000Z' });
+    await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Writing',
+      tasks: [{ name: 'Draft' }],
+      dependencies: [research.id],
+    });
+
+    const schedule = computeSchedule(await load());
+
+    expect(names(schedule.ready)).toEqual(['Draft']);
+    expect(schedule.waves.map(names)).toEqual([['Draft']]);
+  });
+
+  it('ignores tasks of skipped plans', async () => {
+    const plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Alternative',
+      tasks: [{ name: 'A' }],
+    });
+    await store.updatePlan(plan.id, { status: 'skipped' });
+
+    const schedule = computeSchedule(await load());
+
+    expect(schedule.ready).toEqual([]);
+    expect(schedule.waves).toEqual([]);
+  });
+
+  it('marks cycles and tasks behind them as unschedulable', async () => {
+    await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [
+        { name: 'A', dependencies: ['task-1'] },
+        { name: 'B', dependencies: ['task-0'] },
+        { name: 'C', dependencies: ['task-1'] },
+        { name: 'D' },
+      ],
+    });
+
+    const schedule = computeSchedule(await load());
+
+    expect(schedule.waves.map(names)).toEqual([['D']]);
+    expect(names(schedule.unschedulable)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('marks tasks depending on failed or missing tasks as unschedulable', async () => {
+    const plan = await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [
+        { name: 'A' },
+        { name: 'B', dependencies: ['task-0'] },
+        { name: 'C', dependencies: ['missing-task'] },
+      ],
+    });
+    await store.updatePlanTask(plan.tasks![0].id, { status: 'failed' });
+
+    const schedule = computeSchedule(await load());
+
+    expect(names(schedule.blocked.map(b => b.task))).toEqual(['B', 'C']);
+    expect(names(schedule.unschedulable)).toEqual(['B', 'C']);
+  });
+});
+
+describe('scheduleObjective', () => {
+  it('returns null for non-existent objective', async () => {
+    const store = new InMemoryOPTStore();
+    expect(await scheduleObjective(store, 'non-existent')).toBeNull();
+  });
+
+  it('loads the objective and computes its schedule', async () => {
+    const store = new InMemoryOPTStore();
+    const objective = await store.createObjective({ name: 'Objective' });
+    await store.createPlan({
+      objectiveId: objective.id,
+      name: 'Plan',
+      tasks: [{ name: 'A' }],
+    });
+
+    const schedule = await scheduleObjective(store, objective.id);
+    expect(schedule?.ready.map(t => t.name)).toEqual(['A']);
+  });
+});
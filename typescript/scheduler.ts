@@ -0,0 +1,187 @@
+/**
+ * Dependency scheduling for OPT.
+ * 
+ * Interprets `PlanTask.dependencies` and `Plan.dependencies` to work out
+ * which tasks in an objective can run now, which are waiting (and on what),
+ * and the order the remaining work can execute in.
+ */
+
+import { OPTStore, Objective, Plan, PlanTask } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A not-yet-started task with unmet dependencies.
+ */
+export interface BlockedTask {
+  task: PlanTask;
+  /** Task dependencies that have not completed */
+  waitingOnTasks: string[];
+  /** Dependencies of the task's plan that have not completed */
+  waitingOnPlans: string[];
+}
+
+/**
+ * Execution schedule for an objective.
+ */
+export interface Schedule {
+  /** Not-yet-started tasks whose dependencies have all completed */
+  ready: PlanTask[];
+  /** Not-yet-started tasks still waiting on dependencies */
+  blocked: BlockedTask[];
+  /**
+   * Unfinished tasks in topological order, grouped into waves. Tasks in the
+   * same wave do not depend on each other and can run in parallel; each
+   * wave only depends on earlier ones.
+   */
+  waves: PlanTask[][];
+  /**
+   * Unfinished tasks that can never run: they are part of a dependency
+   * cycle, or depend (directly or indirectly) on a task or plan that is
+   * missing or finished without completing.
+   */
+  unschedulable: PlanTask[];
+}
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/** Task statuses after which a task will not run again. */
+const FINISHED_TASK_STATUSES = ['completed', 'failed', 'canceled', 'rejected'];
+
+/** Plan statuses whose tasks are still to be scheduled. */
+const ACTIVE_PLAN_STATUSES = ['pending', 'working', 'blocked'];
+
+function isFinished(task: PlanTask): boolean {
+  return FINISHED_TASK_STATUSES.includes(task.status ?? '');
+}
+
+function isNotStarted(task: PlanTask): boolean {
+  return task.status === undefined || task.status === 'pending';
+}
+
+function isActive(plan: Plan): boolean {
+  return ACTIVE_PLAN_STATUSES.includes(plan.status) && !plan.deletedAt;
+}
+
+/**
+ * Compute the execution schedule for an objective.
+ * 
+ * Only tasks of pending, working or blocked plans that are not soft-deleted
+ * are scheduled. A dependency is met once the task (or plan) it names has
+ * completed. Dependencies on soft-deleted plans are ignored.
+ * 
+ * @param objective - Objective with plans and tasks populated
+ * 
+ * @example
+ * ```typescript
+ * const objective = await store.getObjective('obj-123');
+ * const { ready, waves } = computeSchedule(objective);
+ * for (const task of ready) {
+ *   await dispatch(task);
+ * }
+ * ```
+ */
+export function computeSchedule(objective: Objective): Schedule {
+  const plans = objective.plans ?? [];
+  const plansById = new Map(plans.map(plan => [plan.id, plan]));
+  const tasksById = new Map<string, PlanTask>();
+  for (const plan of plans) {
+    for (const task of plan.tasks ?? []) {
+      tasksById.set(task.id, task);
+    }
+  }
+
+  const open = plans
+    .filter(isActive)
+    .flatMap(plan => plan.tasks ?? [])
+    .filter(task => !isFinished(task));
+  const openIds = new Set(open.map(task => task.id));
+
+  const ready: PlanTask[] = [];
+  const blocked: BlockedTask[] = [];
+  const predecessors = new Map<string, string[]>();
+
+  for (const task of open) {
+    const plan = plansById.get(task.planId)!;
+    const waitingOnTasks = (task.dependencies ?? [])
+      .filter(id => tasksById.get(id)?.status !== 'completed');
+    const waitingOnPlans = (plan.dependencies ?? [])
+      .filter(id => {
+        const dependency = plansById.get(id);
+        return dependency?.status !== 'completed' && !dependency?.deletedAt;
+      });
+
+    if (isNotStarted(task)) {
+      if (waitingOnTasks.length === 0 && waitingOnPlans.length === 0) {
+        ready.push(task);
+      } else {
+        blocked.push({ task, waitingOnTasks, waitingOnPlans });
+      }
+    }
+
+    // Edges for the execution order. A dependency on something that will
+    // never complete leaves the task out of the graph entirely.
+    const preds: string[] = [];
+    let schedulable = true;
+    for (const id of waitingOnTasks) {
+      if (openIds.has(id)) {
+        preds.push(id);
+      } else {
+        schedulable = false;
+      }
+    }
+    for (const id of waitingOnPlans) {
+      const dependency = plansById.get(id);
+      if (dependency && isActive(dependency)) {
+        preds.push(...(dependency.tasks ?? []).filter(t => openIds.has(t.id)).map(t => t.id));
+      } else {
+        schedulable = false;
+      }
+    }
+    if (schedulable) {
+      predecessors.set(task.id, preds);
+    }
+  }
+
+  // Kahn's algorithm, one level at a time
+  const waves: PlanTask[][] = [];
+  const scheduled = new Set<string>();
+  let remaining = open.filter(task => predecessors.has(task.id));
+  while (remaining.length > 0) {
+    const wave = remaining.filter(task =>
+      predecessors.get(task.id)!.every(id => scheduled.has(id))
+    );
+    if (wave.length === 0) break;  // Everything left is in or behind a cycle
+
+    for (const task of wave) {
+      scheduled.add(task.id);
+    }
+    waves.push(wave);
+    remaining = remaining.filter(task => !scheduled.has(task.id));
+  }
+
+  return {
+    ready,
+    blocked,
+    waves,
+    unschedulable: open.filter(task => !scheduled.has(task.id)),
+  };
+}
+
+/**
+ * Load an objective from the store and compute its schedule.
+ * 
+ * @returns The schedule, or null if the objective does not exist
+ */
+export async function scheduleObjective(
+  store: OPTStore,
+  objectiveId: string
+): Promise<Schedule | null> {
+  const objective = await store.getObjective(objectiveId);
+  if (!objective) return null;
+  return computeSchedule(objective);
+}
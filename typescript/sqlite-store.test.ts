@@ -0,0 +1,240 @@
+/**
+ * Tests for SqliteOPTStore.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { SqliteOPTStore, SQLITE_MIGRATIONS } from './sqlite-store.js';
+import { runOPTStoreConformance } from './conformance.js';
+
+describe('SqliteOPTStore', () => {
+  let db: Database.Database;
+  let store: SqliteOPTStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    store = new SqliteOPTStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('migrations', () => {
+    it('applies all migrations to a new database', () => {
+      expect(store.getSchemaVersion()).toBe(SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version);
+      const tables = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")
+        .all()
+        .map(row => (row as { name: string }).name);
+      expect(tables).toEqual(['objectives', 'opt_schema_migrations', 'plan_tasks', 'plans', 'status_history']);
+    });
+
+    it('records the extension each migration was written for', () => {
+      const row = db.prepare('SELECT extension FROM opt_schema_migrations WHERE version = 1').get();
+      expect(row).toEqual({ extension: 'https://github.com/zeroasterisk/a2a-opt/v1' });
+    });
+
+    it('is a no-op when the schema is current', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+
+      const reopened = new SqliteOPTStore(db);
+
+      expect((await reopened.getObjective(obj.id))?.name).toBe('Objective');
+    });
+
+    it('upgrades a version 1 database, keeping its rows', async () => {
+      const old = new Database(':memory:');
+      old.exec(`
+        CREATE TABLE opt_schema_migrations (version INTEGER PRIMARY KEY, extension TEXT NOT NULL, applied_at TEXT NOT NULL);
+        ${SQLITE_MIGRATIONS[0].sql}
+        INSERT INTO opt_schema_migrations VALUES (1, 'v1', '');
+        INSERT INTO objectives (id, name, status, created_at, updated_at) VALUES ('obj-1', 'Old', 'working', '', '');
+      `);
+
+      const upgraded = new SqliteOPTStore(old);
+
+      expect(upgraded.getSchemaVersion()).toBe(SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version);
+      expect((await upgraded.getObjective('obj-1'))?.version).toBe(1);
+      expect((await upgraded.updateObjective('obj-1', { name: 'New' }))?.version).toBe(2);
+      old.close();
+    });
+
+    it('refuses a database from a newer schema', () => {
+      db.prepare("INSERT INTO opt_schema_migrations VALUES (999, 'future', '')").run();
+
+      expect(() => new SqliteOPTStore(db)).toThrow('newer than supported');
+    });
+  });
+
+  describe('objectives', () => {
+    it('round-trips fields', async () => {
+      const created = await store.createObjective({
+        name: 'Objective',
+        description: 'Desc',
+        metadata: { owner: 'me' },
+      });
+
+      const fetched = await store.getObjective(created.id);
+
+      expect(fetched).toEqual({ ...created, plans: [] });
+    });
+
+    it('updates fields and keeps id and createdAt', async () => {
+      const created = await store.createObjective({ name: 'Objective' });
+
+      const updated = await store.updateObjective(created.id, {
+        id: 'other',
+        status: 'working',
+        metadata: { a: 1 },
+      });
+
+      expect(updated?.id).toBe(created.id);
+      expect(updated?.createdAt).toBe(created.createdAt);
+      const fetched = await store.getObjective(created.id);
+      expect(fetched?.status).toBe('working');
+      expect(fetched?.metadata).toEqual({ a: 1 });
+    });
+
+    it('returns null when updating a missing objective', async () => {
+      expect(await store.updateObjective('non-existent', { name: 'x' })).toBeNull();
+    });
+  });
+
+  describe('listObjectives', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 5; i++) {
+        const obj = await store.createObjective({ name: `Objective ${i}` });
+        if (i % 2 === 0) await store.updateObjective(obj.id, { status: 'working' });
+      }
+    });
+
+    it('filters by status', async () => {
+      const result = await store.listObjectives({ status: 'working' });
+
+      expect(result.objectives).toHaveLength(3);
+      expect(result.totalSize).toBe(3);
+      expect(result.objectives.every(o => o.status === 'working')).toBe(true);
+    });
+
+    it('paginates', async () => {
+      const first = await store.listObjectives({ pageSize: 2 });
+      const second = await store.listObjectives({ pageSize: 2, pageToken: first.nextPageToken });
+      const third = await store.listObjectives({ pageSize: 2, pageToken: second.nextPageToken });
+
+      expect(first.totalSize).toBe(5);
+      expect(third.objectives).toHaveLength(1);
+      expect(third.nextPageToken).toBeUndefined();
+      const ids = [...first.objectives, ...second.objectives, ...third.objectives].map(o => o.id);
+      expect(new Set(ids).size).toBe(5);
+    });
+  });
+
+  describe('plans and tasks', () => {
+    it('creates a plan with tasks and resolves task references', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'A' }, { name: 'B', dependencies: ['task-0'] }],
+      });
+
+      const fetched = await store.getPlan(plan.id);
+
+      expect(fetched).toEqual(plan);
+      expect(fetched?.tasks?.[1].dependencies).toEqual([plan.tasks![0].id]);
+    });
+
+    it('orders plans by creation', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      await store.createPlan({ objectiveId: obj.id, name: 'First' });
+      await store.createPlan({ objectiveId: obj.id, name: 'Second' });
+
+      const plans = await store.getPlansForObjective(obj.id);
+
+      expect(plans.map(p => p.name)).toEqual(['First', 'Second']);
+    });
+
+    it('inserts tasks at a position and renumbers', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'A' }, { name: 'B' }],
+      });
+
+      const added = await store.addPlanTasks({ planId: plan.id, tasks: [{ name: 'X' }], position: 1 });
+
+      expect(added?.[0].taskIndex).toBe(1);
+      const tasks = await store.getTasksForPlan(plan.id);
+      expect(tasks.map(t => [t.name, t.taskIndex])).toEqual([['A', 0], ['X', 1], ['B', 2]]);
+    });
+
+    it('returns null when adding tasks to a missing plan', async () => {
+      expect(await store.addPlanTasks({ planId: 'non-existent', tasks: [{ name: 'X' }] })).toBeNull();
+    });
+
+    it('updates and links tasks', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'A' }] });
+      const taskId = plan.tasks![0].id;
+
+      await store.updatePlanTask(taskId, { status: 'working', metadata: { attempt: 1 } });
+      await store.linkA2ATask(taskId, 'a2a-1');
+
+      const task = await store.getPlanTask(taskId);
+      expect(task?.status).toBe('working');
+      expect(task?.metadata).toEqual({ attempt: 1 });
+      expect(task?.a2aTaskId).toBe('a2a-1');
+    });
+
+    it('throws when linking a missing task', async () => {
+      await expect(store.linkA2ATask('non-existent', 'a2a-1')).rejects.toThrow('PlanTask not found');
+    });
+  });
+
+  describe('createObjectiveTree', () => {
+    it('rolls back everything when a write fails', async () => {
+      db.exec('DROP TABLE plan_tasks');
+
+      await expect(store.createObjectiveTree({
+        name: 'Objective',
+        plans: [{ name: 'Plan', tasks: [{ name: 'Task' }] }],
+      })).rejects.toThrow();
+
+      expect(db.prepare('SELECT COUNT(*) AS count FROM objectives').get()).toEqual({ count: 0 });
+      expect(db.prepare('SELECT COUNT(*) AS count FROM plans').get()).toEqual({ count: 0 });
+    });
+  });
+
+  describe('cascading deletes', () => {
+    it('deletes plans and tasks with their objective', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'A' }] });
+
+      expect(await store.deleteObjective(obj.id)).toBe(true);
+
+      expect(await store.getPlan(plan.id)).toBeNull();
+      expect(await store.getPlanTask(plan.tasks![0].id)).toBeNull();
+    });
+
+    it('deletes tasks with their plan', async () => {
+      const obj = await store.createObjective({ name: 'Objective' });
+      const plan = await store.createPlan({ objectiveId: obj.id, name: 'Plan', tasks: [{ name: 'A' }] });
+
+      expect(await store.deletePlan(plan.id)).toBe(true);
+
+      expect(await store.getTasksForPlan(plan.id)).toEqual([]);
+      expect(await store.getObjective(obj.id)).not.toBeNull();
+    });
+
+    it('returns false for missing entities', async () => {
+      expect(await store.deleteObjective('non-existent')).toBe(false);
+      expect(await store.deletePlan('non-existent')).toBe(false);
+    });
+  });
+});
+
+runOPTStoreConformance('SqliteOPTStore', {
+  create: () => new SqliteOPTStore(new Database(':memory:')),
+});
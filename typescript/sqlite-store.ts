@@ -0,0 +1,936 @@
+/**
+ * SQLite implementation of OPTStore.
+ * 
+ * Objectives, plans and plan tasks live in their own tables, with foreign
+ * keys that cascade deletes the same way InMemoryOPTStore does. The schema is
+ * created and upgraded by versioned migrations recorded in the database.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  OPTStore,
+  Objective,
+  Plan,
+  PlanTask,
+  ObjectiveStatus,
+  PlanStatus,
+  PlanTaskStatus,
+  CreateObjectiveRequest,
+  CreateObjectiveWithPlansRequest,
+  CreatePlanRequest,
+  AddPlanTasksRequest,
+  ListObjectivesRequest,
+  ListObjectivesResponse,
+  ObjectiveSortField,
+  ListPlansRequest,
+  ListPlansResponse,
+  StatusHistoryEntry,
+  OPT_EXTENSION_URI,
+} from './types.js';
+import { generateId, timestamp, resolveTaskDependencies, resolvePlanDependencies } from './store.js';
+
+// =============================================================================
+// Database
+// =============================================================================
+
+/**
+ * The subset of a synchronous SQLite driver used by SqliteOPTStore.
+ * 
+ * A `better-sqlite3` `Database` satisfies this interface, so the driver stays
+ * an optional dependency of this package.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+export interface SqliteMigration {
+  version: number;
+  /** Extension version the schema serves */
+  extension: string;
+  sql: string;
+}
+
+/**
+ * Schema migrations, applied in order. Append new entries; never edit one
+ * that has shipped.
+ */
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    extension: OPT_EXTENSION_URI,
+    sql: `
+      CREATE TABLE objectives (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL,
+        metadata TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX objectives_created_at ON objectives (created_at);
+      CREATE INDEX objectives_status_created_at ON objectives (status, created_at);
+
+      CREATE TABLE plans (
+        id TEXT PRIMARY KEY,
+        objective_id TEXT NOT NULL REFERENCES objectives (id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL,
+        dependencies TEXT NOT NULL DEFAULT '[]',
+        metadata TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX plans_objective_id ON plans (objective_id, created_at);
+
+      CREATE TABLE plan_tasks (
+        id TEXT PRIMARY KEY,
+        plan_id TEXT NOT NULL REFERENCES plans (id) ON DELETE CASCADE,
+        objective_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        task_index INTEGER NOT NULL,
+        dependencies TEXT NOT NULL DEFAULT '[]',
+        a2a_task_id TEXT,
+        status TEXT,
+        metadata TEXT NOT NULL DEFAULT '{}'
+      );
+      CREATE INDEX plan_tasks_plan_id ON plan_tasks (plan_id, task_index);
+      CREATE INDEX plan_tasks_a2a_task_id ON plan_tasks (a2a_task_id);
+    `,
+  },
+  {
+    version: 2,
+    extension: OPT_EXTENSION_URI,
+    sql: `
+      ALTER TABLE objectives ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE plans ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE plan_tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    `,
+  },
+  {
+    version: 3,
+    extension: OPT_EXTENSION_URI,
+    sql: `
+      ALTER TABLE objectives ADD COLUMN deleted_at TEXT;
+      ALTER TABLE plans ADD COLUMN deleted_at TEXT;
+    `,
+  },
+  {
+    version: 4,
+    extension: OPT_EXTENSION_URI,
+    sql: `
+      CREATE INDEX plans_status_updated_at ON plans (status, updated_at);
+    `,
+  },
+  {
+    version: 5,
+    extension: OPT_EXTENSION_URI,
+    sql: `
+      CREATE INDEX objectives_updated_at ON objectives (updated_at);
+    `,
+  },
+  {
+    version: 6,
+    extension: OPT_EXTENSION_URI,
+    sql: `
+      CREATE TABLE status_history (
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        from_status TEXT NOT NULL,
+        to_status TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        actor TEXT,
+        reason TEXT
+      );
+      CREATE INDEX status_history_entity ON status_history (entity, entity_id);
+    `,
+  },
+];
+
+// =============================================================================
+// Rows
+// =============================================================================
+
+interface ObjectiveRow {
+  id: string;
+  name: string;
+  description: string | null;
+  status: string;
+  metadata: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+interface PlanRow {
+  id: string;
+  objective_id: string;
+  name: string;
+  description: string | null;
+  status: string;
+  dependencies: string;
+  metadata: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+interface PlanTaskRow {
+  id: string;
+  plan_id: string;
+  objective_id: string;
+  name: string;
+  description: string | null;
+  task_index: number;
+  dependencies: string;
+  a2a_task_id: string | null;
+  status: string | null;
+  metadata: string;
+  version: number;
+}
+
+interface StatusHistoryRow {
+  entity: string;
+  entity_id: string;
+  from_status: string;
+  to_status: string;
+  timestamp: string;
+  actor: string | null;
+  reason: string | null;
+}
+
+/** Columns objectives/list may sort by. */
+const OBJECTIVE_SORT_COLUMNS: Record<ObjectiveSortField, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  name: 'name',
+};
+
+function toObjective(row: ObjectiveRow): Objective {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    status: row.status as ObjectiveStatus,
+    plans: [],
+    metadata: JSON.parse(row.metadata),
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+  };
+}
+
+function toPlan(row: PlanRow): Plan {
+  return {
+    id: row.id,
+    objectiveId: row.objective_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    status: row.status as PlanStatus,
+    tasks: [],
+    dependencies: JSON.parse(row.dependencies),
+    metadata: JSON.parse(row.metadata),
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at ?? undefined,
+  };
+}
+
+function toPlanTask(row: PlanTaskRow): PlanTask {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    objectiveId: row.objective_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    taskIndex: row.task_index,
+    dependencies: JSON.parse(row.dependencies),
+    a2aTaskId: row.a2a_task_id ?? undefined,
+    status: (row.status ?? undefined) as PlanTaskStatus | undefined,
+    metadata: JSON.parse(row.metadata),
+    version: row.version,
+  };
+}
+
+function toStatusHistoryEntry(row: StatusHistoryRow): StatusHistoryEntry {
+  return {
+    entity: row.entity,
+    id: row.entity_id,
+    from: row.from_status,
+    to: row.to_status,
+    timestamp: row.timestamp,
+    actor: row.actor ?? undefined,
+    reason: row.reason ?? undefined,
+  } as StatusHistoryEntry;
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+/**
+ * SQLite-backed OPTStore.
+ * 
+ * Pending migrations are applied when the store is constructed.
+ * 
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * 
+ * const store = new SqliteOPTStore(new Database('opt.db'));
+ * const handler = new OPTHandler(store);
+ * ```
+ */
+export class SqliteOPTStore implements OPTStore {
+  private db: SqliteDatabase;
+  private transactionQueue: Promise<void> = Promise.resolve();
+  /** Set while a transaction or queued write runs */
+  private writing = new AsyncLocalStorage<boolean>();
+
+  constructor(db: SqliteDatabase) {
+    this.db = db;
+    this.db.exec('PRAGMA foreign_keys = ON');
+    this.migrate();
+  }
+
+  /**
+   * Current schema version of the database.
+   */
+  getSchemaVersion(): number {
+    const row = this.db
+      .prepare('SELECT MAX(version) AS version FROM opt_schema_migrations')
+      .get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS opt_schema_migrations (
+        version INTEGER PRIMARY KEY,
+        extension TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const current = this.getSchemaVersion();
+    const latest = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+    if (current > latest) {
+      throw new Error(`OPT schema version ${current} is newer than supported version ${latest}`);
+    }
+
+    for (const migration of SQLITE_MIGRATIONS) {
+      if (migration.version <= current) continue;
+      this.atomic(() => {
+        this.db.exec(migration.sql);
+        this.db
+          .prepare('INSERT INTO opt_schema_migrations (version, extension, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.extension, timestamp());
+      });
+    }
+  }
+
+  /**
+   * Run synchronous statements atomically. Uses a savepoint, so it also
+   * works inside a transaction() call.
+   */
+  private atomic<T>(fn: () => T): T {
+    this.db.exec('SAVEPOINT opt_atomic');
+    try {
+      const result = fn();
+      this.db.exec('RELEASE opt_atomic');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK TO opt_atomic');
+      this.db.exec('RELEASE opt_atomic');
+      throw error;
+    }
+  }
+
+  // =========================================================================
+  // Objectives
+  // =========================================================================
+
+  async createObjective(data: CreateObjectiveRequest): Promise<Objective> {
+    return this.exclusive(async () => {
+      return this.insertObjective(data);
+    });
+  }
+
+  async createObjectiveTree(data: CreateObjectiveWithPlansRequest): Promise<Objective> {
+    return this.exclusive(async () => {
+      const planIds = data.plans.map(() => generateId('plan'));
+
+      const objective = this.atomic(() => {
+        const objective = this.insertObjective(data);
+        data.plans.forEach((planData, i) => {
+          const plan = this.buildPlan(
+            {
+              ...planData,
+              objectiveId: objective.id,
+              dependencies: resolvePlanDependencies(planData.dependencies, planIds),
+            },
+            planIds[i]
+          );
+          this.insertPlan(plan);
+        });
+        return objective;
+      });
+
+      return (await this.getObjective(objective.id))!;
+    });
+  }
+
+  async getObjective(id: string): Promise<Objective | null> {
+    const row = this.db.prepare('SELECT * FROM objectives WHERE id = ?').get(id) as ObjectiveRow | undefined;
+    if (!row) return null;
+
+    return { ...toObjective(row), plans: await this.getPlansForObjective(id) };
+  }
+
+  async listObjectives(params: ListObjectivesRequest): Promise<ListObjectivesResponse> {
+    const conditions: string[] = [];
+    const args: unknown[] = [];
+    if (!params.includeDeleted) {
+      conditions.push('deleted_at IS NULL');
+    }
+    if (params.status) {
+      const statuses = [params.status].flat();
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ') || 'NULL'})`);
+      args.push(...statuses);
+    }
+    if (params.query) {
+      conditions.push("(instr(lower(name), ?) > 0 OR instr(lower(coalesce(description, '')), ?) > 0)");
+      args.push(params.query.toLowerCase(), params.query.toLowerCase());
+    }
+    for (const [key, value] of Object.entries(params.metadata ?? {})) {
+      conditions.push('metadata -> ? = ?');
+      args.push(`$.${JSON.stringify(key)}`, JSON.stringify(value));
+    }
+    for (const [column, bound, operator] of [
+      ['created_at', params.createdAfter, '>'],
+      ['created_at', params.createdBefore, '<'],
+      ['updated_at', params.updatedAfter, '>'],
+      ['updated_at', params.updatedBefore, '<'],
+    ] as const) {
+      if (bound) {
+        conditions.push(`${column} ${operator} ?`);
+        args.push(new Date(bound).toISOString());
+      }
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const orderBy = OBJECTIVE_SORT_COLUMNS[params.orderBy ?? 'createdAt'];
+    const direction = params.direction === 'asc' ? 'ASC' : 'DESC';
+
+    const pageSize = params.pageSize ?? 10;
+    const offset = params.pageToken ? parseInt(params.pageToken, 10) : 0;
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM objectives ${where}`)
+      .get(...args) as { total: number };
+    const rows = this.db
+      .prepare(`SELECT * FROM objectives ${where} ORDER BY ${orderBy} ${direction}, rowid ASC LIMIT ? OFFSET ?`)
+      .all(...args, pageSize, offset) as ObjectiveRow[];
+
+    return {
+      objectives: rows.map(toObjective),
+      nextPageToken: offset + pageSize < total ? String(offset + pageSize) : undefined,
+      totalSize: total,
+    };
+  }
+
+  async updateObjective(id: string, updates: Partial<Objective>): Promise<Objective | null> {
+    return this.exclusive(async () => {
+      const row = this.db.prepare('SELECT * FROM objectives WHERE id = ?').get(id) as ObjectiveRow | undefined;
+      if (!row) return null;
+
+      const objective = toObjective(row);
+      const updated: Objective = {
+        ...objective,
+        ...updates,
+        id: objective.id,
+        plans: [],
+        version: objective.version + 1,
+        createdAt: objective.createdAt,
+        updatedAt: timestamp(),
+      };
+      this.db
+        .prepare(`
+          UPDATE objectives
+          SET name = ?, description = ?, status = ?, metadata = ?, version = ?, updated_at = ?, deleted_at = ?
+          WHERE id = ?
+        `)
+        .run(
+          updated.name,
+          updated.description ?? null,
+          updated.status,
+          JSON.stringify(updated.metadata ?? {}),
+          updated.version,
+          updated.updatedAt,
+          updated.deletedAt ?? null,
+          id
+        );
+      return updated;
+    });
+  }
+
+  async deleteObjective(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      return this.atomic(() => {
+        // History has no foreign key, as it spans three tables
+        this.db
+          .prepare(`
+            DELETE FROM status_history
+            WHERE (entity = 'objective' AND entity_id = ?)
+               OR (entity = 'plan' AND entity_id IN (SELECT id FROM plans WHERE objective_id = ?))
+               OR (entity = 'task' AND entity_id IN (SELECT id FROM plan_tasks WHERE objective_id = ?))
+          `)
+          .run(id, id, id);
+        // Plans and tasks are removed by ON DELETE CASCADE
+        return this.db.prepare('DELETE FROM objectives WHERE id = ?').run(id).changes > 0;
+      });
+    });
+  }
+
+  // =========================================================================
+  // Plans
+  // =========================================================================
+
+  async createPlan(data: CreatePlanRequest): Promise<Plan> {
+    return this.exclusive(async () => {
+      const plan = this.buildPlan(data);
+      this.atomic(() => this.insertPlan(plan));
+      return plan;
+    });
+  }
+
+  async getPlan(id: string): Promise<Plan | null> {
+    const row = this.db.prepare('SELECT * FROM plans WHERE id = ?').get(id) as PlanRow | undefined;
+    if (!row) return null;
+
+    return { ...toPlan(row), tasks: await this.getTasksForPlan(id) };
+  }
+
+  async getPlansForObjective(objectiveId: string): Promise<Plan[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM plans WHERE objective_id = ? ORDER BY created_at ASC, rowid ASC')
+      .all(objectiveId) as PlanRow[];
+
+    const plans: Plan[] = [];
+    for (const row of rows) {
+      plans.push({ ...toPlan(row), tasks: await this.getTasksForPlan(row.id) });
+    }
+    return plans;
+  }
+
+  async listPlans(params: ListPlansRequest): Promise<ListPlansResponse> {
+    const conditions: string[] = [];
+    const args: unknown[] = [];
+    if (!params.includeDeleted) {
+      conditions.push('deleted_at IS NULL');
+      conditions.push('objective_id IN (SELECT id FROM objectives WHERE deleted_at IS NULL)');
+    }
+    if (params.objectiveId) {
+      conditions.push('objective_id = ?');
+      args.push(params.objectiveId);
+    }
+    if (params.status) {
+      const statuses = [params.status].flat();
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ') || 'NULL'})`);
+      args.push(...statuses);
+    }
+    if (params.hasUnmetDependencies !== undefined) {
+      // A dependency is unmet until its plan has completed
+      const unmet = `EXISTS (
+        SELECT 1 FROM json_each(plans.dependencies) AS dependency
+        LEFT JOIN plans AS required ON required.id = dependency.value
+        WHERE required.status IS NOT 'completed'
+      )`;
+      conditions.push(params.hasUnmetDependencies ? unmet : `NOT ${unmet}`);
+    }
+    if (params.updatedAfter) {
+      conditions.push('updated_at > ?');
+      args.push(new Date(params.updatedAfter).toISOString());
+    }
+    if (params.updatedBefore) {
+      conditions.push('updated_at < ?');
+      args.push(new Date(params.updatedBefore).toISOString());
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const pageSize = params.pageSize ?? 10;
+    const offset = params.pageToken ? parseInt(params.pageToken, 10) : 0;
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM plans ${where}`)
+      .get(...args) as { total: number };
+    const rows = this.db
+      .prepare(`SELECT * FROM plans ${where} ORDER BY created_at DESC, rowid ASC LIMIT ? OFFSET ?`)
+      .all(...args, pageSize, offset) as PlanRow[];
+
+    return {
+      plans: rows.map(toPlan),
+      nextPageToken: offset + pageSize < total ? String(offset + pageSize) : undefined,
+      totalSize: total,
+    };
+  }
+
+  async updatePlan(id: string, updates: Partial<Plan>): Promise<Plan | null> {
+    return this.exclusive(async () => {
+      const row = this.db.prepare('SELECT * FROM plans WHERE id = ?').get(id) as PlanRow | undefined;
+      if (!row) return null;
+
+      const plan = toPlan(row);
+      const updated: Plan = {
+        ...plan,
+        ...updates,
+        id: plan.id,
+        objectiveId: plan.objectiveId,
+        tasks: [],
+        version: plan.version + 1,
+        createdAt: plan.createdAt,
+        updatedAt: timestamp(),
+      };
+      this.db
+        .prepare(`
+          UPDATE plans
+          SET name = ?, description = ?, status = ?, dependencies = ?, metadata = ?, version = ?, updated_at = ?,
+            deleted_at = ?
+          WHERE id = ?
+        `)
+        .run(
+          updated.name,
+          updated.description ?? null,
+          updated.status,
+          JSON.stringify(updated.dependencies ?? []),
+          JSON.stringify(updated.metadata ?? {}),
+          updated.version,
+          updated.updatedAt,
+          updated.deletedAt ?? null,
+          id
+        );
+      return updated;
+    });
+  }
+
+  async deletePlan(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      return this.atomic(() => {
+        this.db
+          .prepare(`
+            DELETE FROM status_history
+            WHERE (entity = 'plan' AND entity_id = ?)
+               OR (entity = 'task' AND entity_id IN (SELECT id FROM plan_tasks WHERE plan_id = ?))
+          `)
+          .run(id, id);
+        // Tasks are removed by ON DELETE CASCADE
+        return this.db.prepare('DELETE FROM plans WHERE id = ?').run(id).changes > 0;
+      });
+    });
+  }
+
+  // =========================================================================
+  // Tasks
+  // =========================================================================
+
+  async addPlanTasks(data: AddPlanTasksRequest): Promise<PlanTask[] | null> {
+    return this.exclusive(async () => {
+      const plan = this.db
+        .prepare('SELECT objective_id FROM plans WHERE id = ?')
+        .get(data.planId) as { objective_id: string } | undefined;
+      if (!plan) return null;
+
+      return this.atomic(() => {
+        const { count } = this.db
+          .prepare('SELECT COUNT(*) AS count FROM plan_tasks WHERE plan_id = ?')
+          .get(data.planId) as { count: number };
+        const position = Math.min(Math.max(data.position ?? count, 0), count);
+
+        // Shift tasks at or after the insertion point to make room
+        this.db
+          .prepare(`
+            UPDATE plan_tasks SET task_index = task_index + ?, version = version + 1
+            WHERE plan_id = ? AND task_index >= ?
+          `)
+          .run(data.tasks.length, data.planId, position);
+
+        const taskIds = data.tasks.map(() => generateId('task'));
+        const added = data.tasks.map((taskData, i): PlanTask => ({
+          id: taskIds[i],
+          planId: data.planId,
+          objectiveId: plan.objective_id,
+          name: taskData.name,
+          description: taskData.description,
+          taskIndex: position + i,
+          dependencies: resolveTaskDependencies(taskData.dependencies, taskIds),
+          status: 'pending',
+          metadata: {},
+          version: 1,
+        }));
+        for (const task of added) {
+          this.insertPlanTask(task);
+        }
+
+        this.db
+          .prepare('UPDATE plans SET updated_at = ?, version = version + 1 WHERE id = ?')
+          .run(timestamp(), data.planId);
+        return added;
+      });
+    });
+  }
+
+  async getPlanTask(id: string): Promise<PlanTask | null> {
+    const row = this.db.prepare('SELECT * FROM plan_tasks WHERE id = ?').get(id) as PlanTaskRow | undefined;
+    return row ? toPlanTask(row) : null;
+  }
+
+  async getTasksForPlan(planId: string): Promise<PlanTask[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM plan_tasks WHERE plan_id = ? ORDER BY task_index ASC')
+      .all(planId) as PlanTaskRow[];
+    return rows.map(toPlanTask);
+  }
+
+  async updatePlanTask(id: string, updates: Partial<PlanTask>): Promise<PlanTask | null> {
+    return this.exclusive(async () => {
+      const task = await this.getPlanTask(id);
+      if (!task) return null;
+
+      const updated: PlanTask = {
+        ...task,
+        ...updates,
+        id: task.id,
+        planId: task.planId,
+        objectiveId: task.objectiveId,
+        version: task.version + 1,
+      };
+      this.db
+        .prepare(`
+          UPDATE plan_tasks
+          SET name = ?, description = ?, task_index = ?, dependencies = ?, a2a_task_id = ?, status = ?, metadata = ?,
+            version = ?
+          WHERE id = ?
+        `)
+        .run(
+          updated.name,
+          updated.description ?? null,
+          updated.taskIndex,
+          JSON.stringify(updated.dependencies ?? []),
+          updated.a2aTaskId ?? null,
+          updated.status ?? null,
+          JSON.stringify(updated.metadata ?? {}),
+          updated.version,
+          id
+        );
+      return updated;
+    });
+  }
+
+  async linkA2ATask(planTaskId: string, a2aTaskId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const result = this.db
+        .prepare('UPDATE plan_tasks SET a2a_task_id = ?, version = version + 1 WHERE id = ?')
+        .run(a2aTaskId, planTaskId);
+      if (result.changes === 0) {
+        throw new Error(`PlanTask not found: ${planTaskId}`);
+      }
+    });
+  }
+
+  // =========================================================================
+  // Status History
+  // =========================================================================
+
+  async addStatusHistory(entries: StatusHistoryEntry[]): Promise<void> {
+    return this.exclusive(async () => {
+      const insert = this.db.prepare(`
+        INSERT INTO status_history (entity, entity_id, from_status, to_status, timestamp, actor, reason)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+      this.atomic(() => {
+        for (const entry of entries) {
+          insert.run(
+            entry.entity,
+            entry.id,
+            entry.from,
+            entry.to,
+            entry.timestamp,
+            entry.actor ?? null,
+            entry.reason ?? null
+          );
+        }
+      });
+    });
+  }
+
+  async getStatusHistory(entity: StatusHistoryEntry['entity'], id: string): Promise<StatusHistoryEntry[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM status_history WHERE entity = ? AND entity_id = ? ORDER BY rowid ASC')
+      .all(entity, id) as StatusHistoryRow[];
+    return rows.map(toStatusHistoryEntry);
+  }
+
+  // =========================================================================
+  // Transactions
+  // =========================================================================
+
+  /**
+   * Run `fn` in a database transaction, rolled back if it throws.
+   * 
+   * Transactions are queued so they never interleave. The connection is
+   * shared, so writes made outside a transaction wait for the running one
+   * to finish rather than become part of it. A nested call runs in a
+   * savepoint, so its rollback leaves the outer transaction's writes.
+   */
+  async transaction<T>(fn: (store: OPTStore) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      this.db.exec('SAVEPOINT opt_transaction');
+      try {
+        const result = await fn(this);
+        this.db.exec('RELEASE opt_transaction');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK TO opt_transaction');
+        this.db.exec('RELEASE opt_transaction');
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Run a write in turn with transactions. Writes made by a transaction,
+   * or by another write, run right away.
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.writing.getStore()) return fn();
+    const run = this.transactionQueue.then(() => this.writing.run(true, fn));
+    this.transactionQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  // =========================================================================
+  // Helpers
+  // =========================================================================
+
+  private insertObjective(data: CreateObjectiveRequest): Objective {
+    const now = timestamp();
+    const objective: Objective = {
+      id: generateId('obj'),
+      name: data.name,
+      description: data.description,
+      status: 'submitted',
+      plans: [],
+      metadata: data.metadata ?? {},
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.db
+      .prepare(`
+        INSERT INTO objectives (id, name, description, status, metadata, version, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        objective.id,
+        objective.name,
+        objective.description ?? null,
+        objective.status,
+        JSON.stringify(objective.metadata),
+        objective.version,
+        objective.createdAt,
+        objective.updatedAt
+      );
+    return objective;
+  }
+
+  private buildPlan(data: CreatePlanRequest, id: string = generateId('plan')): Plan {
+    const now = timestamp();
+    const taskIds = (data.tasks ?? []).map(() => generateId('task'));
+    return {
+      id,
+      objectiveId: data.objectiveId,
+      name: data.name,
+      description: data.description,
+      status: 'pending',
+      tasks: (data.tasks ?? []).map((taskData, i) => ({
+        id: taskIds[i],
+        planId: id,
+        objectiveId: data.objectiveId,
+        name: taskData.name,
+        description: taskData.description,
+        taskIndex: i,
+        dependencies: resolveTaskDependencies(taskData.dependencies, taskIds),
+        status: 'pending',
+        metadata: {},
+        version: 1,
+      })),
+      dependencies: data.dependencies ?? [],
+      metadata: data.metadata ?? {},
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private insertPlan(plan: Plan): void {
+    this.db
+      .prepare(`
+        INSERT INTO plans
+          (id, objective_id, name, description, status, dependencies, metadata, version, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        plan.id,
+        plan.objectiveId,
+        plan.name,
+        plan.description ?? null,
+        plan.status,
+        JSON.stringify(plan.dependencies),
+        JSON.stringify(plan.metadata),
+        plan.version,
+        plan.createdAt,
+        plan.updatedAt
+      );
+    for (const task of plan.tasks ?? []) {
+      this.insertPlanTask(task);
+    }
+  }
+
+  private insertPlanTask(task: PlanTask): void {
+    this.db
+      .prepare(`
+        INSERT INTO plan_tasks
+          (id, plan_id, objective_id, name, description, task_index, dependencies, a2a_task_id, status, metadata, version)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        task.id,
+        task.planId,
+        task.objectiveId,
+        task.name,
+        task.description ?? null,
+        task.taskIndex,
+        JSON.stringify(task.dependencies ?? []),
+        task.a2aTaskId ?? null,
+        task.status ?? null,
+        JSON.stringify(task.metadata ?? {}),
+        task.version
+      );
+  }
+}
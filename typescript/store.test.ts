@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryOPTStore, generateId, timestamp } from './store.js';
+import { runOPTStoreConformance } from './conformance.js';
 
 describe('InMemoryOPTStore', () => {
   let store: InMemoryOPTStore;
@@ -372,6 +373,93 @@ describe('InMemoryOPTStore', () => {
     });
   });
 
+  describe('addPlanTasks', () => {
+    it('returns null for non-existent plan', async () => {
+      const result = await store.addPlanTasks({ planId: 'non-existent', tasks: [{ name: 'Task' }] });
+      expect(result).toBeNull();
+    });
+
+    it('appends tasks by default', async () => {
+      const obj = await store.createObjective({ name: 'Obj' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'Task 0' }],
+      });
+
+      const added = await store.addPlanTasks({
+        planId: plan.id,
+        tasks: [{ name: 'Task 1' }, { name: 'Task 2' }],
+      });
+
+      expect(added?.map(t => t.taskIndex)).toEqual([1, 2]);
+      expect(added?.[0].planId).toBe(plan.id);
+      expect(added?.[0].objectiveId).toBe(obj.id);
+      expect(added?.[0].status).toBe('pending');
+    });
+
+    it('inserts at a position and renumbers later tasks', async () => {
+      const obj = await store.createObjective({ name: 'Obj' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'A' }, { name: 'D' }],
+      });
+
+      await store.addPlanTasks({
+        planId: plan.id,
+        tasks: [{ name: 'B' }, { name: 'C' }],
+        position: 1,
+      });
+
+      const tasks = await store.getTasksForPlan(plan.id);
+      expect(tasks.map(t => t.name)).toEqual(['A', 'B', 'C', 'D']);
+      expect(tasks.map(t => t.taskIndex)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('resolves references to new and existing tasks', async () => {
+      const obj = await store.createObjective({ name: 'Obj' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'Existing' }],
+      });
+      const existingId = plan.tasks![0].id;
+
+      const added = await store.addPlanTasks({
+        planId: plan.id,
+        tasks: [
+          { name: 'New 0', dependencies: [existingId] },
+          { name: 'New 1', dependencies: ['task-0', existingId] },
+        ],
+      });
+
+      expect(added?.[0].dependencies).toEqual([existingId]);
+      expect(added?.[1].dependencies).toEqual([added?.[0].id, existingId]);
+    });
+  });
+
+  describe('getPlanTask', () => {
+    it('returns null for non-existent task', async () => {
+      expect(await store.getPlanTask('non-existent')).toBeNull();
+    });
+
+    it('returns a copy of the task', async () => {
+      const obj = await store.createObjective({ name: 'Obj' });
+      const plan = await store.createPlan({
+        objectiveId: obj.id,
+        name: 'Plan',
+        tasks: [{ name: 'Task' }],
+      });
+
+      const task = await store.getPlanTask(plan.tasks![0].id);
+      expect(task?.name).toBe('Task');
+
+      task!.name = 'Mutated';
+      expect((await store.getPlanTask(plan.tasks![0].id))?.name).toBe('Task');
+    });
+  });
+
   describe('updatePlanTask', () => {
     it('returns null for non-existent task', async () => {
       const result = await store.updatePlanTask('non-existent', { status: 'completed' });
@@ -448,3 +536,7 @@ describe('InMemoryOPTStore', () => {
     });
   });
 });
+
+runOPTStoreConformance('InMemoryOPTStore', {
+  create: () => new InMemoryOPTStore(),
+});
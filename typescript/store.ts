@@ -5,15 +5,21 @@
  * For production, implement OPTStore with persistent storage.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import {
   OPTStore,
   Objective,
   Plan,
   PlanTask,
   CreateObjectiveRequest,
+  CreateObjectiveWithPlansRequest,
   CreatePlanRequest,
+  AddPlanTasksRequest,
   ListObjectivesRequest,
   ListObjectivesResponse,
+  ListPlansRequest,
+  ListPlansResponse,
+  StatusHistoryEntry,
 } from './types.js';
 
 /**
@@ -32,32 +38,166 @@ export function timestamp(): string {
   return new Date().toISOString();
 }
 
+/**
+ * Resolve task dependency references to task IDs.
+ * 
+ * "task-N" refers to the N-th entry of `taskIds` (the tasks being created in
+ * the same request); anything else is taken to be an existing task ID.
+ * Out-of-range index references are dropped.
+ */
+export function resolveTaskDependencies(
+  dependencies: string[] | undefined,
+  taskIds: string[]
+): string[] {
+  return resolveReferences('task', dependencies, taskIds);
+}
+
+/**
+ * Resolve plan dependency references to plan IDs.
+ * 
+ * Like resolveTaskDependencies, with "plan-N" referring to the plans being
+ * created in the same request.
+ */
+export function resolvePlanDependencies(
+  dependencies: string[] | undefined,
+  planIds: string[]
+): string[] {
+  return resolveReferences('plan', dependencies, planIds);
+}
+
+function resolveReferences(
+  prefix: string,
+  dependencies: string[] | undefined,
+  ids: string[]
+): string[] {
+  const pattern = new RegExp(`^${prefix}-(\\d+)$`);
+  return (dependencies ?? [])
+    .map(dep => {
+      const match = dep.match(pattern);
+      if (match) {
+        const index = parseInt(match[1], 10);
+        return ids[index];
+      }
+      return dep;
+    })
+    .filter((id): id is string => id !== undefined);
+}
+
+/**
+ * Check whether an ISO 8601 timestamp falls strictly between two optional
+ * bounds.
+ */
+function inRange(value: string, after?: string, before?: string): boolean {
+  const time = new Date(value).getTime();
+  if (after && time <= new Date(after).getTime()) return false;
+  if (before && time >= new Date(before).getTime()) return false;
+  return true;
+}
+
+/** Steps that undo the running transaction's changes, oldest first */
+interface Journal {
+  undo: Array<() => void> | null;
+}
+
+/**
+ * A Map that records how to undo each change while a transaction runs, so a
+ * rollback costs as much as the transaction wrote rather than the store size.
+ */
+class JournaledMap<K, V> extends Map<K, V> {
+  private journal: Journal;
+
+  constructor(journal: Journal) {
+    super();
+    this.journal = journal;
+  }
+
+  set(key: K, value: V): this {
+    this.record(key);
+    return super.set(key, value);
+  }
+
+  delete(key: K): boolean {
+    this.record(key);
+    return super.delete(key);
+  }
+
+  clear(): void {
+    for (const key of this.keys()) this.record(key);
+    super.clear();
+  }
+
+  private record(key: K): void {
+    if (!this.journal.undo) return;
+    const previous = this.get(key);
+    const existed = this.has(key);
+    this.journal.undo.push(() => {
+      if (existed) super.set(key, previous as V);
+      else super.delete(key);
+    });
+  }
+}
+
 /**
  * In-memory implementation of OPTStore.
+ * 
+ * Entities are returned as deep copies, so callers cannot mutate stored state.
+ * Stored entities are never mutated in place either; updates replace them.
  */
 export class InMemoryOPTStore implements OPTStore {
-  private objectives: Map<string, Objective> = new Map();
-  private plans: Map<string, Plan> = new Map();
-  private tasks: Map<string, PlanTask> = new Map();
+  private journal: Journal = { undo: null };
+  protected objectives: Map<string, Objective> = new JournaledMap(this.journal);
+  protected plans: Map<string, Plan> = new JournaledMap(this.journal);
+  protected tasks: Map<string, PlanTask> = new JournaledMap(this.journal);
+  /** Status history by `${entity}:${id}` */
+  protected history: Map<string, StatusHistoryEntry[]> = new JournaledMap(this.journal);
+  private transactionQueue: Promise<void> = Promise.resolve();
+  /** Set while a transaction or queued write runs */
+  private writing = new AsyncLocalStorage<boolean>();
 
   // =========================================================================
   // Objectives
   // =========================================================================
 
   async createObjective(data: CreateObjectiveRequest): Promise<Objective> {
-    const now = timestamp();
-    const objective: Objective = {
-      id: generateId('obj'),
-      name: data.name,
-      description: data.description,
-      status: 'submitted',
-      plans: [],
-      metadata: data.metadata ?? {},
-      createdAt: now,
-      updatedAt: now,
-    };
-    this.objectives.set(objective.id, objective);
-    return { ...objective };
+    return this.exclusive(async () => {
+      const now = timestamp();
+      const objective: Objective = {
+        id: generateId('obj'),
+        name: data.name,
+        description: data.description,
+        status: 'submitted',
+        plans: [],
+        metadata: data.metadata ?? {},
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.objectives.set(objective.id, objective);
+      return structuredClone(objective);
+    });
+  }
+
+  async createObjectiveTree(data: CreateObjectiveWithPlansRequest): Promise<Objective> {
+    return this.exclusive(async () => {
+      // Nothing below can fail once the handler has validated the request,
+      // so the tree is never left half-built
+      const objective = await this.createObjective(data);
+      const plans: Plan[] = [];
+      for (const planData of data.plans) {
+        plans.push(await this.createPlan({ ...planData, objectiveId: objective.id, dependencies: [] }));
+      }
+    
+      // Plans can depend on plans created after them, so link once all exist
+      const planIds = plans.map(plan => plan.id);
+      for (let i = 0; i < plans.length; i++) {
+        const dependencies = resolvePlanDependencies(data.plans[i].dependencies, planIds);
+        if (dependencies.length > 0) {
+          await this.updatePlan(plans[i].id, { dependencies });
+        }
+      }
+    
+      return (await this.getObjective(objective.id))!;
+    });
   }
 
   async getObjective(id: string): Promise<Objective | null> {
@@ -66,22 +206,56 @@ export class InMemoryOPTStore implements OPTStore {
     
     // Populate plans
     const plans = await this.getPlansForObjective(id);
-    return { ...objective, plans };
+    return { ...structuredClone(objective), plans };
   }
 
   async listObjectives(params: ListObjectivesRequest): Promise<ListObjectivesResponse> {
     let objectives = Array.from(this.objectives.values());
     
-    // Filter by status
+    // Hide soft-deleted objectives
+    if (!params.includeDeleted) {
+      objectives = objectives.filter(o => !o.deletedAt);
+    }
+    
+    // Filter by any of the given statuses
     if (params.status) {
-      objectives = objectives.filter(o => o.status === params.status);
+      const statuses = [params.status].flat();
+      objectives = objectives.filter(o => statuses.includes(o.status));
     }
     
-    // Sort by createdAt descending
-    objectives.sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    // Search name and description
+    if (params.query) {
+      const query = params.query.toLowerCase();
+      objectives = objectives.filter(o => 
+        o.name.toLowerCase().includes(query) ||
+        (o.description?.toLowerCase().includes(query) ?? false)
+      );
+    }
+    
+    // Match metadata values
+    if (params.metadata) {
+      const entries = Object.entries(params.metadata);
+      objectives = objectives.filter(o => 
+        entries.every(([key, value]) => o.metadata?.[key] === value)
+      );
+    }
+    
+    // Filter by date ranges
+    objectives = objectives.filter(o => 
+      inRange(o.createdAt, params.createdAfter, params.createdBefore) &&
+      inRange(o.updatedAt, params.updatedAfter, params.updatedBefore)
     );
     
+    // Sort, newest first by default
+    const orderBy = params.orderBy ?? 'createdAt';
+    const sign = params.direction === 'asc' ? 1 : -1;
+    objectives.sort((a, b) => {
+      if (orderBy === 'name') {
+        return sign * (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+      }
+      return sign * (new Date(a[orderBy]).getTime() - new Date(b[orderBy]).getTime());
+    });
+    
     // Pagination
     const pageSize = params.pageSize ?? 10;
     const startIndex = params.pageToken ? parseInt(params.pageToken, 10) : 0;
@@ -89,40 +263,46 @@ export class InMemoryOPTStore implements OPTStore {
     const page = objectives.slice(startIndex, endIndex);
     
     return {
-      objectives: page.map(o => ({ ...o })),
+      objectives: page.map(o => structuredClone(o)),
       nextPageToken: endIndex < objectives.length ? String(endIndex) : undefined,
       totalSize: objectives.length,
     };
   }
 
   async updateObjective(id: string, updates: Partial<Objective>): Promise<Objective | null> {
-    const objective = this.objectives.get(id);
-    if (!objective) return null;
+    return this.exclusive(async () => {
+      const objective = this.objectives.get(id);
+      if (!objective) return null;
     
-    // Apply updates (excluding id, createdAt)
-    const updated: Objective = {
-      ...objective,
-      ...updates,
-      id: objective.id,
-      createdAt: objective.createdAt,
-      updatedAt: timestamp(),
-    };
+      // Apply updates (excluding id, createdAt)
+      const updated: Objective = {
+        ...objective,
+        ...updates,
+        id: objective.id,
+        version: objective.version + 1,
+        createdAt: objective.createdAt,
+        updatedAt: timestamp(),
+      };
     
-    this.objectives.set(id, updated);
-    return { ...updated };
+      this.objectives.set(id, updated);
+      return structuredClone(updated);
+    });
   }
 
   async deleteObjective(id: string): Promise<boolean> {
-    if (!this.objectives.has(id)) return false;
+    return this.exclusive(async () => {
+      if (!this.objectives.has(id)) return false;
     
-    // Delete associated plans and tasks
-    const plans = await this.getPlansForObjective(id);
-    for (const plan of plans) {
-      await this.deletePlan(plan.id);
-    }
+      // Delete associated plans and tasks
+      const plans = await this.getPlansForObjective(id);
+      for (const plan of plans) {
+        await this.deletePlan(plan.id);
+      }
     
-    this.objectives.delete(id);
-    return true;
+      this.objectives.delete(id);
+      this.history.delete(`objective:${id}`);
+      return true;
+    });
   }
 
   // =========================================================================
@@ -130,74 +310,51 @@ export class InMemoryOPTStore implements OPTStore {
   // =========================================================================
 
   async createPlan(data: CreatePlanRequest): Promise<Plan> {
-    const now = timestamp();
-    const planId = generateId('plan');
-    
-    // Create the plan
-    const plan: Plan = {
-      id: planId,
-      objectiveId: data.objectiveId,
-      name: data.name,
-      description: data.description,
-      status: 'pending',
-      tasks: [],
-      dependencies: data.dependencies ?? [],
-      metadata: data.metadata ?? {},
-      createdAt: now,
-      updatedAt: now,
-    };
+    return this.exclusive(async () => {
+      const now = timestamp();
+      const planId = generateId('plan');
     
-    // Create tasks if provided
-    if (data.tasks && data.tasks.length > 0) {
-      const planTasks: PlanTask[] = [];
-      const taskIdMap: Map<number, string> = new Map();
-      
-      for (let i = 0; i < data.tasks.length; i++) {
-        const taskData = data.tasks[i];
-        const taskId = generateId('task');
-        taskIdMap.set(i, taskId);
-        
-        const planTask: PlanTask = {
-          id: taskId,
-          planId,
-          objectiveId: data.objectiveId,
-          name: taskData.name,
-          description: taskData.description,
-          taskIndex: i,
-          dependencies: [],
-          status: 'pending',
-          metadata: {},
-        };
-        
-        this.tasks.set(taskId, planTask);
-        planTasks.push(planTask);
-      }
+      // Create the plan
+      const plan: Plan = {
+        id: planId,
+        objectiveId: data.objectiveId,
+        name: data.name,
+        description: data.description,
+        status: 'pending',
+        tasks: [],
+        dependencies: data.dependencies ?? [],
+        metadata: data.metadata ?? {},
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+    
+      // Create tasks if provided
+      if (data.tasks && data.tasks.length > 0) {
+        const taskIds = data.tasks.map(() => generateId('task'));
       
-      // Resolve task dependencies (e.g., "task-0" → actual ID)
-      for (let i = 0; i < data.tasks.length; i++) {
-        const taskData = data.tasks[i];
-        if (taskData.dependencies) {
-          const taskId = taskIdMap.get(i)!;
-          const task = this.tasks.get(taskId)!;
-          task.dependencies = taskData.dependencies
-            .map(dep => {
-              const match = dep.match(/^task-(\d+)$/);
-              if (match) {
-                const index = parseInt(match[1], 10);
-                return taskIdMap.get(index);
-              }
-              return dep;
-            })
-            .filter((id): id is string => id !== undefined);
-          this.tasks.set(taskId, task);
-        }
+        // Resolve task dependencies (e.g., "task-0" → actual ID)
+        plan.tasks = data.tasks.map((taskData, i) => {
+          const planTask: PlanTask = {
+            id: taskIds[i],
+            planId,
+            objectiveId: data.objectiveId,
+            name: taskData.name,
+            description: taskData.description,
+            taskIndex: i,
+            dependencies: resolveTaskDependencies(taskData.dependencies, taskIds),
+            status: 'pending',
+            metadata: {},
+            version: 1,
+          };
+          this.tasks.set(planTask.id, planTask);
+          return planTask;
+        });
       }
-      
-      plan.tasks = planTasks;
-    }
     
-    this.plans.set(planId, plan);
-    return { ...plan };
+      this.plans.set(planId, plan);
+      return structuredClone(plan);
+    });
   }
 
   async getPlan(id: string): Promise<Plan | null> {
@@ -206,7 +363,7 @@ export class InMemoryOPTStore implements OPTStore {
     
     // Populate tasks
     const tasks = await this.getTasksForPlan(id);
-    return { ...plan, tasks };
+    return { ...structuredClone(plan), tasks };
   }
 
   async getPlansForObjective(objectiveId: string): Promise<Plan[]> {
@@ -214,7 +371,7 @@ export class InMemoryOPTStore implements OPTStore {
     for (const plan of this.plans.values()) {
       if (plan.objectiveId === objectiveId) {
         const tasks = await this.getTasksForPlan(plan.id);
-        plans.push({ ...plan, tasks });
+        plans.push({ ...structuredClone(plan), tasks });
       }
     }
     // Sort by createdAt
@@ -224,45 +381,144 @@ export class InMemoryOPTStore implements OPTStore {
     return plans;
   }
 
-  async updatePlan(id: string, updates: Partial<Plan>): Promise<Plan | null> {
-    const plan = this.plans.get(id);
-    if (!plan) return null;
+  async listPlans(params: ListPlansRequest): Promise<ListPlansResponse> {
+    let plans = Array.from(this.plans.values());
+    
+    // Hide soft-deleted plans, and plans of soft-deleted objectives
+    if (!params.includeDeleted) {
+      plans = plans.filter(p => !p.deletedAt && !this.objectives.get(p.objectiveId)?.deletedAt);
+    }
+    
+    if (params.objectiveId) {
+      plans = plans.filter(p => p.objectiveId === params.objectiveId);
+    }
+    
+    if (params.status) {
+      const statuses = [params.status].flat();
+      plans = plans.filter(p => statuses.includes(p.status));
+    }
+    
+    // A dependency is unmet until its plan has completed
+    if (params.hasUnmetDependencies !== undefined) {
+      plans = plans.filter(p => 
+        (p.dependencies ?? []).some(id => this.plans.get(id)?.status !== 'completed') === params.hasUnmetDependencies
+      );
+    }
+    
+    // Filter by updatedAt range
+    plans = plans.filter(p => inRange(p.updatedAt, params.updatedAfter, params.updatedBefore));
+    
+    // Sort by createdAt descending
+    plans.sort((a, b) => 
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+    
+    // Pagination
+    const pageSize = params.pageSize ?? 10;
+    const startIndex = params.pageToken ? parseInt(params.pageToken, 10) : 0;
+    const endIndex = startIndex + pageSize;
+    const page = plans.slice(startIndex, endIndex);
     
-    const updated: Plan = {
-      ...plan,
-      ...updates,
-      id: plan.id,
-      objectiveId: plan.objectiveId,
-      createdAt: plan.createdAt,
-      updatedAt: timestamp(),
+    return {
+      plans: page.map(p => ({ ...structuredClone(p), tasks: [] })),
+      nextPageToken: endIndex < plans.length ? String(endIndex) : undefined,
+      totalSize: plans.length,
     };
+  }
+
+  async updatePlan(id: string, updates: Partial<Plan>): Promise<Plan | null> {
+    return this.exclusive(async () => {
+      const plan = this.plans.get(id);
+      if (!plan) return null;
+    
+      const updated: Plan = {
+        ...plan,
+        ...updates,
+        id: plan.id,
+        objectiveId: plan.objectiveId,
+        version: plan.version + 1,
+        createdAt: plan.createdAt,
+        updatedAt: timestamp(),
+      };
     
-    this.plans.set(id, updated);
-    return { ...updated };
+      this.plans.set(id, updated);
+      return structuredClone(updated);
+    });
   }
 
   async deletePlan(id: string): Promise<boolean> {
-    if (!this.plans.has(id)) return false;
+    return this.exclusive(async () => {
+      if (!this.plans.has(id)) return false;
     
-    // Delete associated tasks
-    const tasks = await this.getTasksForPlan(id);
-    for (const task of tasks) {
-      this.tasks.delete(task.id);
-    }
+      // Delete associated tasks
+      const tasks = await this.getTasksForPlan(id);
+      for (const task of tasks) {
+        this.tasks.delete(task.id);
+        this.history.delete(`task:${task.id}`);
+      }
     
-    this.plans.delete(id);
-    return true;
+      this.plans.delete(id);
+      this.history.delete(`plan:${id}`);
+      return true;
+    });
   }
 
   // =========================================================================
   // Tasks
   // =========================================================================
 
+  async addPlanTasks(data: AddPlanTasksRequest): Promise<PlanTask[] | null> {
+    return this.exclusive(async () => {
+      const plan = this.plans.get(data.planId);
+      if (!plan) return null;
+    
+      const existing = await this.getTasksForPlan(plan.id);
+      const position = Math.min(Math.max(data.position ?? existing.length, 0), existing.length);
+    
+      // Shift tasks at or after the insertion point to make room
+      for (const task of existing) {
+        if (task.taskIndex >= position) {
+          this.tasks.set(task.id, {
+            ...task,
+            taskIndex: task.taskIndex + data.tasks.length,
+            version: task.version + 1,
+          });
+        }
+      }
+    
+      const taskIds = data.tasks.map(() => generateId('task'));
+      const added = data.tasks.map((taskData, i) => {
+        const planTask: PlanTask = {
+          id: taskIds[i],
+          planId: plan.id,
+          objectiveId: plan.objectiveId,
+          name: taskData.name,
+          description: taskData.description,
+          taskIndex: position + i,
+          dependencies: resolveTaskDependencies(taskData.dependencies, taskIds),
+          status: 'pending',
+          metadata: {},
+          version: 1,
+        };
+        this.tasks.set(planTask.id, planTask);
+        return structuredClone(planTask);
+      });
+    
+      this.plans.set(plan.id, { ...plan, version: plan.version + 1, updatedAt: timestamp() });
+      return added;
+    });
+  }
+
+  async getPlanTask(id: string): Promise<PlanTask | null> {
+    const task = this.tasks.get(id);
+    return task ? structuredClone(task) : null;
+  }
+
   async getTasksForPlan(planId: string): Promise<PlanTask[]> {
     const tasks: PlanTask[] = [];
     for (const task of this.tasks.values()) {
       if (task.planId === planId) {
-        tasks.push({ ...task });
+        tasks.push(structuredClone(task));
       }
     }
     // Sort by taskIndex
@@ -271,28 +527,95 @@ export class InMemoryOPTStore implements OPTStore {
   }
 
   async updatePlanTask(id: string, updates: Partial<PlanTask>): Promise<PlanTask | null> {
-    const task = this.tasks.get(id);
-    if (!task) return null;
-    
-    const updated: PlanTask = {
-      ...task,
-      ...updates,
-      id: task.id,
-      planId: task.planId,
-      objectiveId: task.objectiveId,
-    };
+    return this.exclusive(async () => {
+      const task = this.tasks.get(id);
+      if (!task) return null;
+    
+      const updated: PlanTask = {
+        ...task,
+        ...updates,
+        id: task.id,
+        planId: task.planId,
+        objectiveId: task.objectiveId,
+        version: task.version + 1,
+      };
     
-    this.tasks.set(id, updated);
-    return { ...updated };
+      this.tasks.set(id, updated);
+      return structuredClone(updated);
+    });
   }
 
   async linkA2ATask(planTaskId: string, a2aTaskId: string): Promise<void> {
-    const task = this.tasks.get(planTaskId);
-    if (!task) {
-      throw new Error(`PlanTask not found: ${planTaskId}`);
+    return this.exclusive(async () => {
+      const task = this.tasks.get(planTaskId);
+      if (!task) {
+        throw new Error(`PlanTask not found: ${planTaskId}`);
+      }
+      this.tasks.set(planTaskId, { ...task, a2aTaskId, version: task.version + 1 });
+    });
+  }
+
+  // =========================================================================
+  // Status History
+  // =========================================================================
+
+  async addStatusHistory(entries: StatusHistoryEntry[]): Promise<void> {
+    return this.exclusive(async () => {
+      this.appendHistory(entries);
+    });
+  }
+
+  async getStatusHistory(entity: StatusHistoryEntry['entity'], id: string): Promise<StatusHistoryEntry[]> {
+    return [...(this.history.get(`${entity}:${id}`) ?? [])];
+  }
+
+  protected appendHistory(entries: StatusHistoryEntry[]): void {
+    for (const entry of entries) {
+      const key = `${entry.entity}:${entry.id}`;
+      // Replace rather than push, so transaction snapshots stay intact
+      this.history.set(key, [...(this.history.get(key) ?? []), entry]);
     }
-    task.a2aTaskId = a2aTaskId;
-    this.tasks.set(planTaskId, task);
+  }
+
+  // =========================================================================
+  // Transactions
+  // =========================================================================
+
+  /**
+   * Run `fn` with this store, restoring the previous state if it throws.
+   * 
+   * Transactions are queued so they never interleave, and writes made
+   * outside a transaction wait for the running one to finish, so a rollback
+   * only undoes the transaction's own changes. A nested call undoes only
+   * what it wrote.
+   */
+  async transaction<T>(fn: (store: OPTStore) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      // Stored entities are replaced rather than mutated, so restoring the
+      // previous value of each changed key is enough to roll back
+      const outermost = this.journal.undo === null;
+      const undo = (this.journal.undo ??= []);
+      const mark = undo.length;
+      try {
+        return await fn(this);
+      } catch (error) {
+        while (undo.length > mark) undo.pop()!();
+        throw error;
+      } finally {
+        if (outermost) this.journal.undo = null;
+      }
+    });
+  }
+
+  /**
+   * Run a write in turn with transactions. Writes made by a transaction,
+   * or by another write, run right away.
+   */
+  protected exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.writing.getStore()) return fn();
+    const run = this.transactionQueue.then(() => this.writing.run(true, fn));
+    this.transactionQueue = run.then(() => undefined, () => undefined);
+    return run;
   }
 
   // =========================================================================
@@ -306,6 +629,7 @@ export class InMemoryOPTStore implements OPTStore {
     this.objectives.clear();
     this.plans.clear();
     this.tasks.clear();
+    this.history.clear();
   }
 
   /**
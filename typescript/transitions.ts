@@ -0,0 +1,180 @@
+/**
+ * Status state machines for OPT.
+ * 
+ * The transitions each status may take, the policies that let deployments
+ * change them, and the checks the handler and status propagation share.
+ */
+
+import { Objective, ObjectiveStatus, Plan, PlanStatus, PlanTask, PlanTaskStatus } from './types.js';
+
+// =============================================================================
+// Policies
+// =============================================================================
+
+/**
+ * The statuses each status may move to.
+ */
+export type TransitionTable<S extends string> = Readonly<Record<S, readonly S[]>>;
+
+/**
+ * A state machine for one kind of entity.
+ * 
+ * A status change is allowed if the table lists it and the guard, when
+ * given, returns true. Guards see the entity before the change and the
+ * update being applied, and may throw an OPTError to refuse with their own
+ * message. Updates that keep the status are always allowed. When a change
+ * takes two steps, the guard of the second sees the status the first set.
+ * During status propagation a refusal, returned or thrown, leaves that
+ * parent unchanged.
+ * 
+ * @example
+ * ```typescript
+ * // Reopenable objectives
+ * const objective: TransitionPolicy<ObjectiveStatus, Objective> = {
+ *   transitions: { ...VALID_OBJECTIVE_TRANSITIONS, completed: ['working'] },
+ *   guard: (objective, update) => update.status !== 'working' || objective.metadata?.reopenable === true,
+ * };
+ * new OPTHandler(store, { transitions: { objective } });
+ * ```
+ */
+export interface TransitionPolicy<S extends string, E> {
+  transitions: TransitionTable<S>;
+  guard?: (entity: E, update: Partial<E>) => boolean;
+}
+
+/**
+ * Transition policies for each kind of entity; see OPTHandlerOptions.
+ */
+export interface TransitionPolicies {
+  objective?: TransitionPolicy<ObjectiveStatus, Objective>;
+  plan?: TransitionPolicy<PlanStatus, Plan>;
+  task?: TransitionPolicy<PlanTaskStatus, PlanTask>;
+}
+
+// =============================================================================
+// Default Tables
+// =============================================================================
+
+/**
+ * Valid objective status transitions.
+ */
+export const VALID_OBJECTIVE_TRANSITIONS: TransitionTable<ObjectiveStatus> = {
+  submitted: ['planning', 'working', 'canceled'],
+  planning: ['working', 'blocked', 'failed', 'canceled'],
+  working: ['blocked', 'completed', 'failed', 'canceled'],
+  blocked: ['planning', 'working', 'failed', 'canceled'],
+  completed: [],  // Terminal state
+  failed: ['submitted', 'planning'],  // Can retry
+  canceled: ['submitted'],  // Can restart
+};
+
+/**
+ * Valid plan status transitions.
+ */
+export const VALID_PLAN_TRANSITIONS: TransitionTable<PlanStatus> = {
+  pending: ['working', 'skipped'],
+  working: ['blocked', 'completed', 'failed'],
+  blocked: ['working', 'failed', 'skipped'],
+  completed: [],  // Terminal state
+  failed: ['pending', 'working'],  // Can retry
+  skipped: [],  // Terminal state
+};
+
+/**
+ * Valid plan task status transitions.
+ */
+export const VALID_TASK_TRANSITIONS: TransitionTable<PlanTaskStatus> = {
+  'pending': ['submitted', 'working', 'input-required', 'auth-required', 'blocked', 'completed', 'failed', 'canceled', 'rejected'],
+  'submitted': ['working', 'input-required', 'auth-required', 'blocked', 'completed', 'failed', 'canceled', 'rejected'],
+  'working': ['input-required', 'auth-required', 'blocked', 'completed', 'failed', 'canceled'],
+  'input-required': ['working', 'auth-required', 'blocked', 'completed', 'failed', 'canceled'],
+  'auth-required': ['working', 'input-required', 'blocked', 'completed', 'failed', 'canceled'],
+  'blocked': ['working', 'input-required', 'auth-required', 'completed', 'failed', 'canceled'],
+  'completed': [],  // Terminal state
+  'failed': ['pending', 'working'],  // Can retry
+  'canceled': ['pending'],  // Can restart
+  'rejected': ['pending'],  // Can be sent again
+};
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Check if an objective status transition is valid.
+ */
+export function isValidObjectiveTransition(
+  from: ObjectiveStatus,
+  to: ObjectiveStatus
+): boolean {
+  if (from === to) return true;  // No change is always valid
+  return VALID_OBJECTIVE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Check if a plan status transition is valid.
+ */
+export function isValidPlanTransition(
+  from: PlanStatus,
+  to: PlanStatus
+): boolean {
+  if (from === to) return true;  // No change is always valid
+  return VALID_PLAN_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Check if a plan task status transition is valid.
+ */
+export function isValidPlanTaskTransition(
+  from: PlanTaskStatus,
+  to: PlanTaskStatus
+): boolean {
+  if (from === to) return true;  // No change is always valid
+  return VALID_TASK_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Check a status change against a transition policy.
+ */
+export function isAllowedTransition<S extends string, E>(
+  policy: TransitionPolicy<S, E>,
+  entity: E,
+  from: S,
+  to: S,
+  update: Partial<E>
+): boolean {
+  if (from === to) return true;  // No change is always valid
+  if (!(policy.transitions[from]?.includes(to) ?? false)) return false;
+  return policy.guard?.(entity, update) ?? true;
+}
+
+/**
+ * Fill in the default policy for every entity without one.
+ */
+export function resolveTransitionPolicies(
+  policies: TransitionPolicies = {}
+): Required<TransitionPolicies> {
+  return {
+    objective: policies.objective ?? { transitions: VALID_OBJECTIVE_TRANSITIONS },
+    plan: policies.plan ?? { transitions: VALID_PLAN_TRANSITIONS },
+    task: policies.task ?? { transitions: VALID_TASK_TRANSITIONS },
+  };
+}
+
+/**
+ * Find the status changes needed to move from one status to another,
+ * stepping through `via` when there is no direct transition.
+ * 
+ * @returns The statuses to apply in order, or null if unreachable
+ */
+export function transitionPath<S extends string>(
+  from: S,
+  to: S,
+  via: S,
+  isAllowed: (from: S, to: S) => boolean
+): S[] | null {
+  if (from === to) return [];
+  if (isAllowed(from, to)) return [to];
+  if (from !== via && isAllowed(from, via) && isAllowed(via, to)) return [via, to];
+  return null;
+}
@@ -26,6 +26,23 @@ export type PlanStatus =
   | 'failed'       // Plan cannot be completed
   | 'skipped';     // Plan was skipped (alternative chosen)
 
+/**
+ * PlanTask states: the A2A TaskState values (except `unknown`), plus
+ * `pending` before the task is dispatched and `blocked` for a task waiting
+ * on something other than the client.
+ */
+export type PlanTaskStatus =
+  | 'pending'         // Not yet dispatched
+  | 'submitted'       // Sent to an agent
+  | 'working'         // Agent is working on it
+  | 'input-required'  // Waiting on input from the client
+  | 'auth-required'   // Waiting on authentication
+  | 'blocked'         // Waiting on something else
+  | 'completed'       // Finished successfully
+  | 'failed'          // Finished unsuccessfully
+  | 'canceled'        // Canceled before finishing
+  | 'rejected';       // Agent refused the task
+
 export interface Objective {
   id: string;
   name: string;
@@ -33,8 +50,10 @@ export interface Objective {
   status: ObjectiveStatus;
   plans?: Plan[];
   metadata?: Record<string, unknown>;
+  version: number;    // Starts at 1, incremented on every change
   createdAt: string;  // ISO 8601
   updatedAt: string;  // ISO 8601
+  deletedAt?: string; // Set while soft-deleted
 }
 
 export interface Plan {
@@ -46,8 +65,10 @@ export interface Plan {
   tasks?: PlanTask[];
   dependencies?: string[];  // Plan IDs that must complete first
   metadata?: Record<string, unknown>;
+  version: number;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
 
 export interface PlanTask {
@@ -59,10 +80,33 @@ export interface PlanTask {
   taskIndex: number;        // Order within plan (0-indexed)
   dependencies?: string[];  // PlanTask IDs that must complete first
   a2aTaskId?: string;       // Linked A2A Task ID
-  status?: string;          // Mirrors A2A task state
+  status?: PlanTaskStatus;  // Mirrors A2A task state
   metadata?: Record<string, unknown>;
+  version: number;
 }
 
+/**
+ * A status change applied to a plan or objective as a consequence of a
+ * change further down the tree (see status propagation).
+ */
+export type StatusTransition =
+  | { entity: 'plan'; id: string; from: PlanStatus; to: PlanStatus }
+  | { entity: 'objective'; id: string; from: ObjectiveStatus; to: ObjectiveStatus };
+
+/**
+ * A status change of a PlanTask.
+ */
+export type PlanTaskTransition = { entity: 'task'; id: string; from: PlanTaskStatus; to: PlanTaskStatus };
+
+/**
+ * A recorded status change of an objective, plan or PlanTask.
+ */
+export type StatusHistoryEntry = (StatusTransition | PlanTaskTransition) & {
+  timestamp: string;
+  actor?: string;    // Who made the change, from the request context
+  reason?: string;
+};
+
 // =============================================================================
 // Metadata Keys
 // =============================================================================
@@ -95,6 +139,12 @@ export const OPT_METADATA = {
   OBJECTIVE: 'opt/v1/objective',
   /** Full plan object (in message metadata) */
   PLAN: 'opt/v1/plan',
+  /** Why the objective was sent back to planning (objective/plan metadata) */
+  REPLAN_REASON: 'opt/v1/replanReason',
+  /** When the objective was sent back to planning (objective/plan metadata) */
+  REPLANNED_AT: 'opt/v1/replannedAt',
+  /** Paused by a replan until a status update resumes it (objective/plan metadata) */
+  PAUSED: 'opt/v1/paused',
 } as const;
 
 /** Extension URI for activation */
@@ -120,6 +170,7 @@ export interface GetObjectiveRequest {
   id: string;
   includePlans?: boolean;
   includeTasks?: boolean;
+  includeDeleted?: boolean;  // Include soft-deleted plans
 }
 
 export interface GetObjectiveResponse {
@@ -127,8 +178,20 @@ export interface GetObjectiveResponse {
 }
 
 // objectives/list
+export type ObjectiveSortField = 'createdAt' | 'updatedAt' | 'name';
+export type SortDirection = 'asc' | 'desc';
+
 export interface ListObjectivesRequest {
-  status?: ObjectiveStatus;
+  status?: ObjectiveStatus | ObjectiveStatus[];  // Any of these statuses
+  query?: string;                  // Case-insensitive substring of name or description
+  metadata?: Record<string, string | number | boolean>;  // Every key has this value
+  createdAfter?: string;           // ISO 8601, exclusive
+  createdBefore?: string;          // ISO 8601, exclusive
+  updatedAfter?: string;           // ISO 8601, exclusive
+  updatedBefore?: string;          // ISO 8601, exclusive
+  orderBy?: ObjectiveSortField;    // Default: createdAt
+  direction?: SortDirection;       // Default: desc
+  includeDeleted?: boolean;        // Include soft-deleted objectives
   pageSize?: number;
   pageToken?: string;
 }
@@ -139,6 +202,24 @@ export interface ListObjectivesResponse {
   totalSize?: number;
 }
 
+// objectives/createWithPlans
+export interface PlanInput {
+  ref?: string;             // Symbolic name other plans can depend on
+  name: string;
+  description?: string;
+  tasks?: PlanTaskInput[];
+  dependencies?: string[];  // Plan refs, or by index: "plan-0", "plan-1"
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreateObjectiveWithPlansRequest extends CreateObjectiveRequest {
+  plans: PlanInput[];
+}
+
+export interface CreateObjectiveWithPlansResponse {
+  objective: Objective;
+}
+
 // objectives/update
 export interface UpdateObjectiveRequest {
   id: string;
@@ -146,22 +227,74 @@ export interface UpdateObjectiveRequest {
   description?: string;
   status?: ObjectiveStatus;
   metadata?: Record<string, unknown>;
+  expectedVersion?: number;  // Fail with CONFLICT unless the objective is at this version
+  reason?: string;           // Recorded in status history
 }
 
 export interface UpdateObjectiveResponse {
   objective: Objective;
 }
 
+// objectives/replan
+export interface ReplanObjectiveRequest {
+  id: string;
+  reason?: string;
+  planStatus?: 'blocked' | 'skipped';  // What to do with unfinished plans (default: blocked)
+}
+
+export interface ReplanObjectiveResponse {
+  objective: Objective;
+  unchangedPlanIds: string[];  // Unfinished plans left as they were: failed ones, and pending ones when pausing
+}
+
+/**
+ * How to delete: `hard` removes the entity and everything under it, `soft`
+ * keeps it as a tombstone with `deletedAt` set.
+ */
+export type DeleteMode = 'hard' | 'soft';
+
+// objectives/delete
+export interface DeleteObjectiveRequest {
+  id: string;
+  mode?: DeleteMode;        // Default: hard
+}
+
+export interface DeleteObjectiveResponse {
+  id: string;
+  mode: DeleteMode;
+  objective?: Objective;    // The tombstone, for soft deletes
+}
+
+// objectives/restore
+export interface RestoreObjectiveRequest {
+  id: string;
+}
+
+export interface RestoreObjectiveResponse {
+  objective: Objective;
+}
+
+// objectives/history
+export interface GetObjectiveHistoryRequest {
+  id: string;
+}
+
+export interface GetObjectiveHistoryResponse {
+  history: StatusHistoryEntry[];  // Oldest first
+}
+
 // plans/create
+export interface PlanTaskInput {
+  name: string;
+  description?: string;
+  dependencies?: string[];  // References by index: "task-0", "task-1"
+}
+
 export interface CreatePlanRequest {
   objectiveId: string;
   name: string;
   description?: string;
-  tasks?: Array<{
-    name: string;
-    description?: string;
-    dependencies?: string[];  // References by index: "task-0", "task-1"
-  }>;
+  tasks?: PlanTaskInput[];
   dependencies?: string[];  // Plan IDs
   metadata?: Record<string, unknown>;
 }
@@ -180,19 +313,155 @@ export interface GetPlanResponse {
   plan: Plan;
 }
 
+// plans/list
+export interface ListPlansRequest {
+  objectiveId?: string;
+  status?: PlanStatus | PlanStatus[];  // Any of these statuses
+  hasUnmetDependencies?: boolean;  // Whether some dependency has not completed
+  updatedAfter?: string;           // ISO 8601, exclusive
+  updatedBefore?: string;          // ISO 8601, exclusive
+  includeDeleted?: boolean;        // Include soft-deleted plans, and those of soft-deleted objectives
+  pageSize?: number;
+  pageToken?: string;
+}
+
+export interface ListPlansResponse {
+  plans: Plan[];                   // Without their tasks
+  nextPageToken?: string;
+  totalSize?: number;
+}
+
 // plans/update
 export interface UpdatePlanRequest {
   id: string;
   name?: string;
   description?: string;
   status?: PlanStatus;
+  dependencies?: string[];  // Plan IDs (replaces existing)
   metadata?: Record<string, unknown>;
+  expectedVersion?: number;  // Fail with CONFLICT unless the plan is at this version
+  reason?: string;           // Recorded in status history
 }
 
 export interface UpdatePlanResponse {
   plan: Plan;
+  propagated?: StatusTransition[];  // Parent status changes caused by this update
+}
+
+// plans/addTasks
+export interface AddPlanTasksRequest {
+  planId: string;
+  tasks: PlanTaskInput[];   // "task-N" refers to this list; other IDs to existing tasks
+  position?: number;        // taskIndex to insert at (default: append)
+}
+
+export interface AddPlanTasksResponse {
+  plan: Plan;
+  tasks: PlanTask[];        // The newly added tasks
+}
+
+// plans/delete
+export interface DeletePlanRequest {
+  id: string;
+  mode?: DeleteMode;        // Default: hard
+  force?: boolean;          // Delete even if other plans depend on it; a hard delete drops those dependencies
+}
+
+export interface DeletePlanResponse {
+  id: string;
+  mode: DeleteMode;
+  plan?: Plan;              // The tombstone, for soft deletes
+}
+
+// plans/history
+export interface GetPlanHistoryRequest {
+  id: string;
+}
+
+export interface GetPlanHistoryResponse {
+  history: StatusHistoryEntry[];  // Oldest first
+}
+
+// planTasks/get
+export interface GetPlanTaskRequest {
+  id: string;
+}
+
+export interface GetPlanTaskResponse {
+  task: PlanTask;
+}
+
+// planTasks/update
+export interface UpdatePlanTaskRequest {
+  id: string;
+  name?: string;
+  description?: string;
+  status?: PlanTaskStatus;
+  metadata?: Record<string, unknown>;
+  expectedVersion?: number;  // Fail with CONFLICT unless the task is at this version
+  reason?: string;           // Recorded in status history
 }
 
+export interface UpdatePlanTaskResponse {
+  task: PlanTask;
+  propagated?: StatusTransition[];  // Parent status changes caused by this update
+}
+
+// planTasks/history
+export interface GetPlanTaskHistoryRequest {
+  id: string;
+}
+
+export interface GetPlanTaskHistoryResponse {
+  history: StatusHistoryEntry[];  // Oldest first
+}
+
+// planTasks/link
+export interface LinkPlanTaskRequest {
+  id: string;
+  a2aTaskId: string;
+}
+
+export interface LinkPlanTaskResponse {
+  task: PlanTask;
+}
+
+// objectives/subscribe (streaming)
+export interface SubscribeObjectiveRequest {
+  id: string;
+}
+
+/**
+ * One streamed result of objectives/subscribe: the current objective tree
+ * first, then one message per change.
+ */
+export type SubscribeObjectiveUpdate =
+  | { objective: Objective }
+  | { event: OPTChangeEvent };
+
+// =============================================================================
+// Change Events
+// =============================================================================
+
+/**
+ * A change to an objective tree, emitted after the store has applied it.
+ * Entities are the stored state after the change.
+ */
+export type OPTChangeEvent = { objectiveId: string; timestamp: string } & (
+  | { type: 'objective.created'; objective: Objective }
+  | { type: 'objective.updated'; objective: Objective }
+  | { type: 'objective.deleted' }
+  | { type: 'plan.created'; plan: Plan }
+  | { type: 'plan.updated'; plan: Plan }
+  | { type: 'plan.deleted'; planId: string }
+  | { type: 'plan.tasksAdded'; planId: string; tasks: PlanTask[] }
+  | { type: 'planTask.updated'; task: PlanTask }
+  | { type: 'planTask.statusChanged'; task: PlanTask; from?: PlanTaskStatus; to?: PlanTaskStatus }
+  | { type: 'planTask.linked'; task: PlanTask }
+);
+
+export type OPTChangeEventType = OPTChangeEvent['type'];
+
 // =============================================================================
 // Agent Card Extension Declaration
 // =============================================================================
@@ -230,11 +499,29 @@ export interface OPTExtensionDeclaration {
 /**
  * Interface for OPT persistence.
  * Implement this to store objectives/plans in your backend.
+ * 
+ * Stores create entities at `version` 1 and increment it on every write to
+ * that entity; `version` in updates is ignored, like `id` and `createdAt`.
+ * 
+ * `runOPTStoreConformance` (from `a2a-opt/conformance`) checks an
+ * implementation against the expected behavior.
  */
 export interface OPTStore {
   // Objectives
   createObjective(data: CreateObjectiveRequest): Promise<Objective>;
+  /**
+   * Optional: create an objective with its plans all-or-nothing. Plan
+   * dependencies are "plan-N" references to other plans in `data.plans`.
+   * Without it, the handler creates the tree step by step and deletes the
+   * objective again if a step fails.
+   */
+  createObjectiveTree?(data: CreateObjectiveWithPlansRequest): Promise<Objective>;
   getObjective(id: string): Promise<Objective | null>;
+  /**
+   * Apply every filter in `params` before paginating, so page tokens and
+   * `totalSize` refer to the filtered list. Ties in the sort order keep
+   * creation order.
+   */
   listObjectives(params: ListObjectivesRequest): Promise<ListObjectivesResponse>;
   updateObjective(id: string, updates: Partial<Objective>): Promise<Objective | null>;
   deleteObjective(id: string): Promise<boolean>;
@@ -243,11 +530,33 @@ export interface OPTStore {
   createPlan(data: CreatePlanRequest): Promise<Plan>;
   getPlan(id: string): Promise<Plan | null>;
   getPlansForObjective(objectiveId: string): Promise<Plan[]>;
+  listPlans(params: ListPlansRequest): Promise<ListPlansResponse>;
   updatePlan(id: string, updates: Partial<Plan>): Promise<Plan | null>;
   deletePlan(id: string): Promise<boolean>;
 
   // Tasks
+  addPlanTasks(data: AddPlanTasksRequest): Promise<PlanTask[] | null>;
+  getPlanTask(id: string): Promise<PlanTask | null>;
   getTasksForPlan(planId: string): Promise<PlanTask[]>;
   updatePlanTask(id: string, updates: Partial<PlanTask>): Promise<PlanTask | null>;
   linkA2ATask(planTaskId: string, a2aTaskId: string): Promise<void>;
+
+  /**
+   * Optional: run `fn` atomically. Every change `fn` makes through `store`
+   * is undone if it throws, and transactions do not interleave. Writes made
+   * outside `fn` while it runs must not be undone with it. The handler runs
+   * each write method in a transaction when the store supports it.
+   */
+  transaction?<T>(fn: (store: OPTStore) => Promise<T>): Promise<T>;
+
+  /**
+   * Optional: keep a status history. The handler records every objective,
+   * plan and PlanTask status change it makes, and only offers
+   * objectives/history, plans/history and planTasks/history when the store
+   * supports it. Hard-deleting an entity deletes its history and that of
+   * everything below it.
+   */
+  addStatusHistory?(entries: StatusHistoryEntry[]): Promise<void>;
+  /** Entries for one objective, plan or PlanTask, oldest first */
+  getStatusHistory?(entity: StatusHistoryEntry['entity'], id: string): Promise<StatusHistoryEntry[]>;
 }
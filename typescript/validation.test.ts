@@ -0,0 +1,214 @@
+/**
+ * Tests for dependency graph validation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateTaskDependencies,
+  validatePlanDependencies,
+  validateNewPlanDependencies,
+  validateObjectiveGraph,
+} from './validation.js';
+import { Objective, Plan, PlanTask } from './types.js';
+
+const NOW = '2026-02-15T00:00:00Z';
+
+function makeTask(id: string, planId: string, objectiveId: string, dependencies: string[] = []): PlanTask {
+  return { id, planId, objectiveId, name: id, taskIndex: 0, dependencies, version: 1 };
+}
+
+function makePlan(
+  id: string,
+  objectiveId: string,
+  dependencies: string[] = [],
+  tasks: PlanTask[] = []
+): Plan {
+  return {
+    id,
+    objectiveId,
+    name: id,
+    status: 'pending',
+    dependencies,
+    tasks,
+    version: 1,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+describe('validateTaskDependencies', () => {
+  const existing = makePlan('plan-a', 'obj-1', [], [makeTask('task-abc', 'plan-a', 'obj-1')]);
+  const foreign = makePlan('plan-x', 'obj-2', [], [makeTask('task-xyz', 'plan-x', 'obj-2')]);
+
+  it('accepts index references and existing task IDs', () => {
+    const issues = validateTaskDependencies(
+      [{ name: 'A', dependencies: ['task-abc'] }, { name: 'B', dependencies: ['task-0'] }],
+      'obj-1',
+      [existing]
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it('reports out-of-range index references as dangling', () => {
+    const issues = validateTaskDependencies(
+      [{ name: 'A', dependencies: ['task-3'] }],
+      'obj-1',
+      []
+    );
+    expect(issues).toEqual([{ kind: 'task', from: 'task-0', to: 'task-3', reason: 'dangling' }]);
+  });
+
+  it('reports unknown task IDs as dangling', () => {
+    const issues = validateTaskDependencies(
+      [{ name: 'A', dependencies: ['task-nope'] }],
+      'obj-1',
+      [existing]
+    );
+    expect(issues).toEqual([{ kind: 'task', from: 'task-0', to: 'task-nope', reason: 'dangling' }]);
+  });
+
+  it('reports self-dependencies', () => {
+    const issues = validateTaskDependencies(
+      [{ name: 'A' }, { name: 'B', dependencies: ['task-1'] }],
+      'obj-1',
+      []
+    );
+    expect(issues).toEqual([{ kind: 'task', from: 'task-1', to: 'task-1', reason: 'self' }]);
+  });
+
+  it('reports tasks in other objectives', () => {
+    const issues = validateTaskDependencies(
+      [{ name: 'A', dependencies: ['task-xyz'] }],
+      'obj-1',
+      [existing, foreign]
+    );
+    expect(issues).toEqual([{ kind: 'task', from: 'task-0', to: 'task-xyz', reason: 'cross-objective' }]);
+  });
+
+  it('reports every edge of a cycle', () => {
+    const issues = validateTaskDependencies(
+      [
+        { name: 'A', dependencies: ['task-2'] },
+        { name: 'B', dependencies: ['task-0'] },
+        { name: 'C', dependencies: ['task-1'] },
+      ],
+      'obj-1',
+      []
+    );
+    expect(issues).toHaveLength(3);
+    expect(issues.every(i => i.reason === 'cycle')).toBe(true);
+    expect(issues.map(i => `${i.from}->${i.to}`).sort()).toEqual([
+      'task-0->task-2',
+      'task-1->task-0',
+      'task-2->task-1',
+    ]);
+  });
+});
+
+describe('validatePlanDependencies', () => {
+  const plans = [
+    makePlan('plan-a', 'obj-1'),
+    makePlan('plan-b', 'obj-1', ['plan-a']),
+    makePlan('plan-x', 'obj-2'),
+  ];
+
+  it('accepts dependencies on plans in the same objective', () => {
+    expect(validatePlanDependencies({ objectiveId: 'obj-1', dependencies: ['plan-a', 'plan-b'] }, plans))
+      .toEqual([]);
+  });
+
+  it('reports dangling and cross-objective dependencies of a new plan', () => {
+    const issues = validatePlanDependencies(
+      { objectiveId: 'obj-1', dependencies: ['plan-missing', 'plan-x'] },
+      plans
+    );
+    expect(issues).toEqual([
+      { kind: 'plan', from: '(new plan)', to: 'plan-missing', reason: 'dangling' },
+      { kind: 'plan', from: '(new plan)', to: 'plan-x', reason: 'cross-objective' },
+    ]);
+  });
+
+  it('reports self-dependencies', () => {
+    const issues = validatePlanDependencies(
+      { id: 'plan-a', objectiveId: 'obj-1', dependencies: ['plan-a'] },
+      plans
+    );
+    expect(issues).toEqual([{ kind: 'plan', from: 'plan-a', to: 'plan-a', reason: 'self' }]);
+  });
+
+  it('reports cycles introduced by an update', () => {
+    const issues = validatePlanDependencies(
+      { id: 'plan-a', objectiveId: 'obj-1', dependencies: ['plan-b'] },
+      plans
+    );
+    expect(issues).toHaveLength(2);
+    expect(issues.every(i => i.reason === 'cycle')).toBe(true);
+    expect(issues.map(i => `${i.from}->${i.to}`).sort()).toEqual([
+      'plan-a->plan-b',
+      'plan-b->plan-a',
+    ]);
+  });
+});
+
+describe('validateNewPlanDependencies', () => {
+  it('accepts plan-N references in either direction', () => {
+    expect(validateNewPlanDependencies([
+      { dependencies: ['plan-2'] },
+      {},
+      { dependencies: ['plan-1'] },
+    ])).toEqual([]);
+  });
+
+  it('reports self, dangling and non-index references', () => {
+    expect(validateNewPlanDependencies([
+      { dependencies: ['plan-0'] },
+      { dependencies: ['plan-5', 'research'] },
+    ])).toEqual([
+      { kind: 'plan', from: 'plan-0', to: 'plan-0', reason: 'self' },
+      { kind: 'plan', from: 'plan-1', to: 'plan-5', reason: 'dangling' },
+      { kind: 'plan', from: 'plan-1', to: 'research', reason: 'dangling' },
+    ]);
+  });
+
+  it('reports cycles', () => {
+    const issues = validateNewPlanDependencies([
+      { dependencies: ['plan-1'] },
+      { dependencies: ['plan-0'] },
+    ]);
+
+    expect(issues.map(i => i.reason)).toEqual(['cycle', 'cycle']);
+  });
+});
+
+describe('validateObjectiveGraph', () => {
+  function makeObjective(plans: Plan[]): Objective {
+    return { id: 'obj-1', name: 'Objective', status: 'planning', plans, version: 1, createdAt: NOW, updatedAt: NOW };
+  }
+
+  it('accepts a valid tree', () => {
+    const objective = makeObjective([
+      makePlan('plan-a', 'obj-1', [], [makeTask('t1', 'plan-a', 'obj-1')]),
+      makePlan('plan-b', 'obj-1', ['plan-a'], [makeTask('t2', 'plan-b', 'obj-1', ['t1'])]),
+    ]);
+    expect(validateObjectiveGraph(objective)).toEqual([]);
+  });
+
+  it('reports every kind of issue', () => {
+    const objective = makeObjective([
+      makePlan('plan-a', 'obj-1', ['plan-b', 'plan-a'], [
+        makeTask('t1', 'plan-a', 'obj-1', ['t2']),
+        makeTask('t2', 'plan-a', 'obj-1', ['t1', 'missing']),
+      ]),
+      makePlan('plan-b', 'obj-1', ['plan-a']),
+    ]);
+
+    const issues = validateObjectiveGraph(objective);
+
+    expect(issues).toContainEqual({ kind: 'plan', from: 'plan-a', to: 'plan-a', reason: 'self' });
+    expect(issues).toContainEqual({ kind: 'plan', from: 'plan-a', to: 'plan-b', reason: 'cycle' });
+    expect(issues).toContainEqual({ kind: 'plan', from: 'plan-b', to: 'plan-a', reason: 'cycle' });
+    expect(issues).toContainEqual({ kind: 'task', from: 't2', to: 'missing', reason: 'dangling' });
+    expect(issues).toContainEqual({ kind: 'task', from: 't1', to: 't2', reason: 'cycle' });
+    expect(issues).toContainEqual({ kind: 'task', from: 't2', to: 't1', reason: 'cycle' });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Dependency graph validation for OPT.
+ * 
+ * Checks task and plan dependencies for cycles, dangling references,
+ * self-dependencies and references into other objectives. The handler runs
+ * these on plans/create, plans/update and plans/addTasks; agents building
+ * plans offline can call them directly.
+ */
+
+import { Objective, Plan, PlanTask, PlanTaskInput } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DependencyIssueReason =
+  | 'cycle'            // Edge is part of a dependency cycle
+  | 'dangling'         // Dependency does not exist
+  | 'self'             // Entity depends on itself
+  | 'cross-objective'; // Dependency belongs to another objective
+
+/**
+ * An offending dependency edge: `from` depends on `to`.
+ * 
+ * Tasks that are not created yet are identified by their "task-N"
+ * reference; a plan that is not created yet is identified as "(new plan)",
+ * or as "plan-N" when several are created together.
+ */
+export interface DependencyIssue {
+  kind: 'task' | 'plan';
+  from: string;
+  to: string;
+  reason: DependencyIssueReason;
+}
+
+/** Identifier used for a plan that has no ID yet. */
+const NEW_PLAN = '(new plan)';
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate the dependencies of tasks about to be added to a plan.
+ * 
+ * "task-N" refers to the N-th entry of `tasks`; any other value must be the
+ * ID of an existing task in the same objective.
+ * 
+ * @param tasks - Tasks being created
+ * @param objectiveId - Objective the tasks will belong to
+ * @param knownPlans - Plans (with tasks) that existing IDs may refer to
+ */
+export function validateTaskDependencies(
+  tasks: PlanTaskInput[],
+  objectiveId: string,
+  knownPlans: Plan[]
+): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const knownTasks = new Map<string, PlanTask>();
+  for (const plan of knownPlans) {
+    for (const task of plan.tasks ?? []) {
+      knownTasks.set(task.id, task);
+    }
+  }
+
+  // Only the new tasks can form a cycle: existing tasks cannot depend on them
+  const graph = new Map<string, string[]>();
+  tasks.forEach((task, i) => {
+    const from = `task-${i}`;
+    const edges: string[] = [];
+    for (const to of task.dependencies ?? []) {
+      const match = to.match(/^task-(\d+)$/);
+      if (match) {
+        const index = parseInt(match[1], 10);
+        if (index === i) {
+          issues.push({ kind: 'task', from, to, reason: 'self' });
+        } else if (index >= tasks.length) {
+          issues.push({ kind: 'task', from, to, reason: 'dangling' });
+        } else {
+          edges.push(`task-${index}`);
+        }
+        continue;
+      }
+
+      const existing = knownTasks.get(to);
+      if (!existing) {
+        issues.push({ kind: 'task', from, to, reason: 'dangling' });
+      } else if (existing.objectiveId !== objectiveId) {
+        issues.push({ kind: 'task', from, to, reason: 'cross-objective' });
+      }
+    }
+    graph.set(from, edges);
+  });
+
+  for (const [from, to] of findCycleEdges(graph)) {
+    issues.push({ kind: 'task', from, to, reason: 'cycle' });
+  }
+  return issues;
+}
+
+/**
+ * Validate a plan's dependencies on other plans.
+ * 
+ * @param plan - The plan being created (no `id`) or updated
+ * @param knownPlans - Plans the dependencies may refer to; a plan being
+ *   updated is taken from `plan`, not from this list
+ */
+export function validatePlanDependencies(
+  plan: { id?: string; objectiveId: string; dependencies?: string[] },
+  knownPlans: Plan[]
+): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const from = plan.id ?? NEW_PLAN;
+  const plansById = new Map(knownPlans.map(p => [p.id, p]));
+
+  for (const to of plan.dependencies ?? []) {
+    const dependency = plansById.get(to);
+    if (to === plan.id) {
+      issues.push({ kind: 'plan', from, to, reason: 'self' });
+    } else if (!dependency) {
+      issues.push({ kind: 'plan', from, to, reason: 'dangling' });
+    } else if (dependency.objectiveId !== plan.objectiveId) {
+      issues.push({ kind: 'plan', from, to, reason: 'cross-objective' });
+    }
+  }
+
+  // A new plan cannot close a cycle: nothing depends on it yet
+  if (plan.id) {
+    const graph = new Map<string, string[]>();
+    for (const known of knownPlans) {
+      graph.set(known.id, (known.dependencies ?? []).filter(id => id !== known.id));
+    }
+    graph.set(plan.id, (plan.dependencies ?? []).filter(id => id !== plan.id));
+    for (const [cycleFrom, cycleTo] of findCycleEdges(graph)) {
+      issues.push({ kind: 'plan', from: cycleFrom, to: cycleTo, reason: 'cycle' });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate the dependencies between plans created together, as in
+ * objectives/createWithPlans.
+ * 
+ * "plan-N" refers to the N-th entry of `plans`; anything else is dangling,
+ * since the plans belong to an objective that does not exist yet.
+ */
+export function validateNewPlanDependencies(
+  plans: Array<{ dependencies?: string[] }>
+): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const graph = new Map<string, string[]>();
+
+  plans.forEach((plan, i) => {
+    const from = `plan-${i}`;
+    const edges: string[] = [];
+    for (const to of plan.dependencies ?? []) {
+      const match = to.match(/^plan-(\d+)$/);
+      const index = match ? parseInt(match[1], 10) : -1;
+      if (index === i) {
+        issues.push({ kind: 'plan', from, to, reason: 'self' });
+      } else if (index < 0 || index >= plans.length) {
+        issues.push({ kind: 'plan', from, to, reason: 'dangling' });
+      } else {
+        edges.push(`plan-${index}`);
+      }
+    }
+    graph.set(from, edges);
+  });
+
+  for (const [from, to] of findCycleEdges(graph)) {
+    issues.push({ kind: 'plan', from, to, reason: 'cycle' });
+  }
+  return issues;
+}
+
+/**
+ * Validate every task and plan dependency in an objective tree.
+ * 
+ * Dependencies must stay within the tree: anything not found in
+ * `objective.plans` is reported as dangling.
+ * 
+ * @example
+ * ```typescript
+ * const issues = validateObjectiveGraph(draftObjective);
+ * if (issues.length > 0) {
+ *   console.warn('Plan has dependency problems', issues);
+ * }
+ * ```
+ */
+export function validateObjectiveGraph(objective: Objective): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const plans = objective.plans ?? [];
+  const plansById = new Map(plans.map(p => [p.id, p]));
+  const tasksById = new Map<string, PlanTask>();
+  for (const plan of plans) {
+    for (const task of plan.tasks ?? []) {
+      tasksById.set(task.id, task);
+    }
+  }
+
+  const planGraph = new Map<string, string[]>();
+  for (const plan of plans) {
+    const edges: string[] = [];
+    for (const to of plan.dependencies ?? []) {
+      const dependency = plansById.get(to);
+      if (to === plan.id) {
+        issues.push({ kind: 'plan', from: plan.id, to, reason: 'self' });
+      } else if (!dependency) {
+        issues.push({ kind: 'plan', from: plan.id, to, reason: 'dangling' });
+      } else if (dependency.objectiveId !== objective.id) {
+        issues.push({ kind: 'plan', from: plan.id, to, reason: 'cross-objective' });
+      } else {
+        edges.push(to);
+      }
+    }
+    planGraph.set(plan.id, edges);
+  }
+
+  const taskGraph = new Map<string, string[]>();
+  for (const task of tasksById.values()) {
+    const edges: string[] = [];
+    for (const to of task.dependencies ?? []) {
+      const dependency = tasksById.get(to);
+      if (to === task.id) {
+        issues.push({ kind: 'task', from: task.id, to, reason: 'self' });
+      } else if (!dependency) {
+        issues.push({ kind: 'task', from: task.id, to, reason: 'dangling' });
+      } else if (dependency.objectiveId !== objective.id) {
+        issues.push({ kind: 'task', from: task.id, to, reason: 'cross-objective' });
+      } else {
+        edges.push(to);
+      }
+    }
+    taskGraph.set(task.id, edges);
+  }
+
+  for (const [from, to] of findCycleEdges(planGraph)) {
+    issues.push({ kind: 'plan', from, to, reason: 'cycle' });
+  }
+  for (const [from, to] of findCycleEdges(taskGraph)) {
+    issues.push({ kind: 'task', from, to, reason: 'cycle' });
+  }
+  return issues;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Find every edge that lies on a cycle found by depth-first search.
+ * Edges to nodes outside the graph are ignored.
+ */
+function findCycleEdges(graph: Map<string, string[]>): Array<[string, string]> {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const edges = new Map<string, [string, string]>();
+
+  const visit = (node: string): void => {
+    visiting.add(node);
+    stack.push(node);
+    for (const next of graph.get(node) ?? []) {
+      if (!graph.has(next)) continue;
+      if (visiting.has(next)) {
+        const cycle = stack.slice(stack.indexOf(next));
+        cycle.forEach((from, i) => {
+          const to = cycle[i + 1] ?? next;
+          edges.set(`${from}\u0000${to}`, [from, to]);
+        });
+      } else if (!visited.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    visiting.delete(node);
+    visited.add(node);
+  };
+
+  for (const node of graph.keys()) {
+    if (!visited.has(node)) visit(node);
+  }
+  return Array.from(edges.values());
+}